@@ -1,12 +1,30 @@
 // Define the configurable parameters for the agent
 
 import { Annotation, LangGraphRunnableConfig } from "@langchain/langgraph";
+import { ContextStrategy } from "../shared/context.js";
+import { DEFAULT_MEMORY_KINDS, MemoryKind } from "./kinds.js";
 import { SYSTEM_PROMPT } from "./prompts.js";
+import { MemoryScope } from "./scopes.js";
 
 export const ConfigurationAnnotation = Annotation.Root({
   userId: Annotation<string>(),
+  teamId: Annotation<string>(),
+  orgId: Annotation<string>(),
+  writableScopes: Annotation<MemoryScope[]>(),
+  memoryApproval: Annotation<boolean>(),
   model: Annotation<string>(),
   systemPrompt: Annotation<string>(),
+  maxContextTokens: Annotation<number>(),
+  contextStrategy: Annotation<ContextStrategy>(),
+  memoryLimit: Annotation<number>(),
+  minScore: Annotation<number>(),
+  extractionDelaySeconds: Annotation<number>(),
+  extractionAssistantId: Annotation<string>(),
+  maxExtractionSteps: Annotation<number>(),
+  memoryKinds: Annotation<MemoryKind[]>(),
+  consolidationThreshold: Annotation<number>(),
+  recencyWeight: Annotation<number>(),
+  recencyHalfLifeDays: Annotation<number>(),
 });
 
 export type Configuration = typeof ConfigurationAnnotation.State;
@@ -15,7 +33,26 @@ export function ensureConfiguration(config?: LangGraphRunnableConfig) {
   const configurable = config?.configurable || {};
   return {
     userId: configurable?.userId || "default",
+    teamId: configurable?.teamId || "",
+    orgId: configurable?.orgId || "",
+    writableScopes: (configurable?.writableScopes ?? ["user"]) as MemoryScope[],
+    memoryApproval: configurable?.memoryApproval ?? false,
     model: configurable?.model || "anthropic/claude-3-7-sonnet-latest",
     systemPrompt: configurable?.systemPrompt || SYSTEM_PROMPT,
+    maxContextTokens: configurable?.maxContextTokens ?? 100_000,
+    contextStrategy: (configurable?.contextStrategy ||
+      "summarize") as ContextStrategy,
+    memoryLimit: configurable?.memoryLimit ?? 10,
+    minScore: configurable?.minScore ?? 0,
+    extractionDelaySeconds: configurable?.extractionDelaySeconds ?? 10,
+    extractionAssistantId:
+      configurable?.extractionAssistantId || "memory_extraction",
+    maxExtractionSteps: configurable?.maxExtractionSteps ?? 5,
+    memoryKinds: (configurable?.memoryKinds?.length
+      ? configurable.memoryKinds
+      : DEFAULT_MEMORY_KINDS) as MemoryKind[],
+    consolidationThreshold: configurable?.consolidationThreshold ?? 0.85,
+    recencyWeight: configurable?.recencyWeight ?? 0.2,
+    recencyHalfLifeDays: configurable?.recencyHalfLifeDays ?? 30,
   };
 }
@@ -0,0 +1,363 @@
+// Memory consolidation graph
+//
+// Collections of memories collect near-duplicates and contradictions over
+// time, because each extraction only sees the memories most relevant to one
+// conversation. This graph deletes expired memories in the scopes it may
+// write to, finds clusters of similar ones, merges each into canonical
+// entries, and writes a change report. Run it on demand, or on a schedule
+// with a cron job, see the README.
+import {
+  BaseStore,
+  END,
+  Item,
+  LangGraphRunnableConfig,
+  START,
+  StateGraph,
+} from "@langchain/langgraph";
+import { v4 as uuidv4 } from "uuid";
+import { loadChatModel } from "../shared/models.js";
+import {
+  ConfigurationAnnotation,
+  ensureConfiguration,
+} from "./configuration.js";
+import { getKindNamespace, MemoryKind, validateMemory } from "./kinds.js";
+import {
+  getMemoryData,
+  getMemoryMetadata,
+  listAllMemories,
+  putMemory,
+  sweepExpiredMemories,
+} from "./lifecycle.js";
+import { CONSOLIDATION_PROMPT } from "./prompts.js";
+import {
+  getScopeNamespace,
+  getWritableScopes,
+  MemoryScope,
+  parseMemoryNamespace,
+} from "./scopes.js";
+import {
+  ConsolidationAnnotation,
+  ConsolidationChange,
+  MemoryCluster,
+} from "./state.js";
+import { getStoreFromConfigOrThrow } from "./utils.js";
+
+/** How many neighbours to look at for each memory when clustering. */
+const NEIGHBOURS = 10;
+
+/**
+ * Get the text of a memory value to search for its neighbours.
+ */
+function getSearchText(value: Record<string, any>): string {
+  return Object.values(getMemoryData(value))
+    .filter((field) => typeof field === "string")
+    .join("\n");
+}
+
+/**
+ * Group a kind's memories into clusters of two or more that are at least
+ * `threshold` similar, following chains of similar memories. Needs a store
+ * with an embeddings index; without one, no clusters are found.
+ */
+async function clusterKind(
+  store: BaseStore,
+  namespace: string[],
+  threshold: number,
+): Promise<string[][]> {
+  const items = await listAllMemories(store, namespace);
+  const parent = new Map(items.map((item) => [item.key, item.key]));
+  const find = (key: string): string => {
+    const root = parent.get(key) ?? key;
+    if (root === key) {
+      return key;
+    }
+    const top = find(root);
+    parent.set(key, top);
+    return top;
+  };
+
+  for (const item of items) {
+    const query = getSearchText(item.value);
+    if (!query) {
+      continue;
+    }
+    const neighbours = await store.search(namespace, {
+      query,
+      limit: NEIGHBOURS,
+    });
+    for (const neighbour of neighbours) {
+      if (
+        neighbour.key !== item.key &&
+        parent.has(neighbour.key) &&
+        neighbour.score !== undefined &&
+        neighbour.score >= threshold
+      ) {
+        parent.set(find(neighbour.key), find(item.key));
+      }
+    }
+  }
+
+  const clusters = new Map<string, string[]>();
+  for (const item of items) {
+    const root = find(item.key);
+    clusters.set(root, [...(clusters.get(root) ?? []), item.key]);
+  }
+  return [...clusters.values()].filter((keys) => keys.length > 1);
+}
+
+async function sweepExpired(
+  _state: typeof ConsolidationAnnotation.State,
+  config: LangGraphRunnableConfig,
+): Promise<typeof ConsolidationAnnotation.Update> {
+  const store = getStoreFromConfigOrThrow(config);
+  const configurable = ensureConfiguration(config);
+
+  // Only scopes this configuration may write to are tidied up.
+  const startedAt = new Date().toISOString();
+  const expired = [];
+  for (const { scope, namespace } of getWritableScopes(
+    configurable,
+    configurable.writableScopes,
+  )) {
+    const items = await sweepExpiredMemories(store, namespace);
+    expired.push(
+      ...items.map((item) => ({
+        scope,
+        kind: parseMemoryNamespace(item.namespace).kind ?? "",
+        key: item.key,
+        value: getMemoryData(item.value),
+      })),
+    );
+  }
+  return { startedAt, expired };
+}
+
+async function findClusters(
+  _state: typeof ConsolidationAnnotation.State,
+  config: LangGraphRunnableConfig,
+): Promise<typeof ConsolidationAnnotation.Update> {
+  const store = getStoreFromConfigOrThrow(config);
+  const configurable = ensureConfiguration(config);
+
+  // Single documents are patched in place, so only collections can repeat.
+  const clusters: MemoryCluster[] = [];
+  for (const { scope, namespace } of getWritableScopes(
+    configurable,
+    configurable.writableScopes,
+  )) {
+    for (const kind of configurable.memoryKinds) {
+      if (kind.updateMode !== "insert") {
+        continue;
+      }
+      const keys = await clusterKind(
+        store,
+        getKindNamespace(namespace, kind),
+        configurable.consolidationThreshold,
+      );
+      clusters.push(
+        ...keys.map((cluster) => ({ scope, kind: kind.name, keys: cluster })),
+      );
+    }
+  }
+
+  return { clusters };
+}
+
+/**
+ * Ask the model to merge one cluster, then replace its memories with the
+ * merged ones.
+ */
+async function mergeCluster(
+  store: BaseStore,
+  scope: MemoryScope,
+  scopeNamespace: string[],
+  kind: MemoryKind,
+  keys: string[],
+  modelName: string,
+): Promise<ConsolidationChange> {
+  const namespace = getKindNamespace(scopeNamespace, kind);
+  const items = (
+    await Promise.all(keys.map((key) => store.get(namespace, key)))
+  ).filter((item): item is Item => item !== null);
+  const metadata = new Map(
+    items.map((item) => [item.key, getMemoryMetadata(item)]),
+  );
+  items.sort((a, b) =>
+    metadata
+      .get(a.key)!
+      .updated_at.localeCompare(metadata.get(b.key)!.updated_at),
+  );
+
+  const memories = items
+    .map(
+      (item) =>
+        `[${item.key}] (saved ${metadata.get(item.key)!.updated_at}): ${JSON.stringify(getMemoryData(item.value))}`,
+    )
+    .join("\n");
+  const model = (await loadChatModel(modelName)).withStructuredOutput(
+    {
+      type: "object",
+      properties: {
+        memories: {
+          type: "array",
+          description: "The canonical memories that replace the ones given.",
+          items: kind.schema,
+        },
+        summary: {
+          type: "string",
+          description:
+            "What was merged and which contradictions were resolved.",
+        },
+      },
+      required: ["memories", "summary"],
+    },
+    { name: "consolidate_memories", method: "functionCalling" },
+  );
+  const result = await model.invoke([
+    {
+      role: "system",
+      content: CONSOLIDATION_PROMPT.replace("{kind}", kind.name).replace(
+        "{memories}",
+        memories,
+      ),
+    },
+    { role: "user", content: "Consolidate these memories." },
+  ]);
+
+  const merged: Record<string, any>[] = result.memories ?? [];
+  const errors = merged.flatMap((value) => validateMemory(kind, value));
+  if (!merged.length || errors.length) {
+    throw new Error(
+      merged.length
+        ? `Merged memories do not match the schema: ${errors.join("; ")}`
+        : "The model returned no merged memories",
+    );
+  }
+
+  // Write the merged memories before deleting the originals, so a failure
+  // part way through never loses information.
+  // Merged memories keep the earliest creation time, and expire only if all
+  // of the originals did, at the latest of their expiry times.
+  const createdAt = [...metadata.values()]
+    .map((meta) => meta.created_at)
+    .sort()[0];
+  const expiryTimes = [...metadata.values()].map((meta) => meta.expires_at);
+  const expiresAt = expiryTimes.every(Boolean)
+    ? (expiryTimes as string[]).sort()[expiryTimes.length - 1]
+    : undefined;
+  // They keep the sources of the originals, the latest if there are many.
+  // Sources have no time of their own, so they follow the order the originals
+  // were last updated in, which `items` is sorted by.
+  const sources = items.flatMap(
+    (item) => metadata.get(item.key)!.sources ?? [],
+  );
+  const created = merged.map((value) => ({ key: uuidv4(), value }));
+  for (const { key, value } of created) {
+    await putMemory(store, namespace, key, value, {
+      createdAt,
+      expiresAt,
+      sources,
+    });
+  }
+  for (const item of items) {
+    await store.delete(namespace, item.key);
+  }
+
+  return {
+    scope,
+    kind: kind.name,
+    removed: items.map((item) => ({
+      key: item.key,
+      value: getMemoryData(item.value),
+    })),
+    created,
+    summary: result.summary ?? "",
+  };
+}
+
+async function mergeClusters(
+  state: typeof ConsolidationAnnotation.State,
+  config: LangGraphRunnableConfig,
+): Promise<typeof ConsolidationAnnotation.Update> {
+  const store = getStoreFromConfigOrThrow(config);
+  const configurable = ensureConfiguration(config);
+
+  const changes: ConsolidationChange[] = [];
+  const errors: typeof ConsolidationAnnotation.State.errors = [];
+  for (const cluster of state.clusters) {
+    const kind = configurable.memoryKinds.find((k) => k.name === cluster.kind);
+    const namespace = getScopeNamespace(cluster.scope, configurable);
+    if (!kind || !namespace) {
+      continue;
+    }
+    try {
+      changes.push(
+        await mergeCluster(
+          store,
+          cluster.scope,
+          namespace,
+          kind,
+          cluster.keys,
+          configurable.model,
+        ),
+      );
+    } catch (error) {
+      // One bad cluster should not stop the rest from being merged.
+      errors.push({
+        scope: cluster.scope,
+        kind: cluster.kind,
+        keys: cluster.keys,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return { changes, errors };
+}
+
+async function writeReport(
+  state: typeof ConsolidationAnnotation.State,
+  config: LangGraphRunnableConfig,
+): Promise<typeof ConsolidationAnnotation.Update> {
+  const store = getStoreFromConfigOrThrow(config);
+  const configurable = ensureConfiguration(config);
+
+  const report = {
+    userId: configurable.userId,
+    startedAt: state.startedAt,
+    finishedAt: new Date().toISOString(),
+    expired: state.expired,
+    clusters: state.clusters.length,
+    changes: state.changes,
+    errors: state.errors,
+  };
+  // Reports are kept outside ["memories", userId] so they are never recalled.
+  await store.put(
+    ["memory_reports", configurable.userId],
+    `consolidation-${report.startedAt}`,
+    report,
+    false,
+  );
+
+  return { report };
+}
+
+// Create the graph + all nodes
+export const builder = new StateGraph(
+  {
+    stateSchema: ConsolidationAnnotation,
+  },
+  ConfigurationAnnotation,
+)
+  .addNode("sweep_expired", sweepExpired)
+  .addNode("find_clusters", findClusters)
+  .addNode("merge_clusters", mergeClusters)
+  .addNode("write_report", writeReport)
+  .addEdge(START, "sweep_expired")
+  .addEdge("sweep_expired", "find_clusters")
+  .addEdge("find_clusters", "merge_clusters")
+  .addEdge("merge_clusters", "write_report")
+  .addEdge("write_report", END);
+
+export const graph = builder.compile();
+graph.name = "MemoryConsolidation";
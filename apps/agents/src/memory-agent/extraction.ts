@@ -0,0 +1,372 @@
+// Memory extraction graph
+//
+// Reflects on a conversation after it goes quiet and writes what is worth
+// remembering to the store, so the chat model never has to stop mid-reply to
+// save a memory. The chat graph schedules it as a delayed run on the LangGraph
+// server with `scheduleMemoryExtraction`, or, with `memoryApproval`, runs it
+// inline so the user can review each save.
+import {
+  END,
+  interrupt,
+  LangGraphRunnableConfig,
+  START,
+  StateGraph,
+} from "@langchain/langgraph";
+import { HumanInterrupt, HumanResponse } from "@langchain/langgraph/prebuilt";
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { ToolCall } from "@langchain/core/messages/tool";
+import { StructuredToolInterface } from "@langchain/core/tools";
+import { convertToOpenAITool } from "@langchain/core/utils/function_calling";
+import { Client } from "@langchain/langgraph-sdk";
+import { initChatModel } from "langchain/chat_models/universal";
+import { v5 as uuidv5 } from "uuid";
+import { prepareContext } from "../shared/context.js";
+import { parseEditedArgs } from "../shared/interrupts.js";
+import {
+  Configuration,
+  ConfigurationAnnotation,
+  ensureConfiguration,
+} from "./configuration.js";
+import { EXTRACTION_PROMPT } from "./prompts.js";
+import { ExtractionAnnotation } from "./state.js";
+import { getKindToolName, initializeTools, MemoryProvenance } from "./tools.js";
+import {
+  formatMemories,
+  getLatestUserText,
+  getStoreFromConfigOrThrow,
+  recallMemories,
+  splitModelAndProvider,
+} from "./utils.js";
+
+/**
+ * Format messages as a plain transcript, so the extractor reads the
+ * conversation instead of taking part in it. Each message starts with its id,
+ * so memories can cite where they came from.
+ */
+function formatTranscript(messages: BaseMessage[]): string {
+  return messages
+    .map((message) => {
+      const text =
+        typeof message.content === "string"
+          ? message.content
+          : message.content
+              .map((part) => (part.type === "text" ? part.text : ""))
+              .join("");
+      const id = message.id ? `[${message.id}] ` : "";
+      return `${id}${message._getType()}: ${text}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Get the conversation memories are saved from. Memories cite the latest user
+ * message unless the model names others.
+ */
+function getProvenance(
+  state: typeof ExtractionAnnotation.State,
+): MemoryProvenance | undefined {
+  if (!state.threadId) {
+    return undefined;
+  }
+  const lastHuman = [...state.messages]
+    .reverse()
+    .find((message) => message._getType() === "human");
+  return {
+    thread_id: state.threadId,
+    run_id: state.runId,
+    messageIds: state.messages.flatMap((message) =>
+      message.id ? [message.id] : [],
+    ),
+    defaultMessageIds: lastHuman?.id ? [lastHuman.id] : [],
+  };
+}
+
+async function extractMemories(
+  state: typeof ExtractionAnnotation.State,
+  config: LangGraphRunnableConfig,
+): Promise<typeof ExtractionAnnotation.Update> {
+  const llm = await initChatModel();
+  const store = getStoreFromConfigOrThrow(config);
+  const configurable = ensureConfiguration(config);
+
+  // Show the memories an update or delete is most likely to touch.
+  const memories = await recallMemories(
+    store,
+    configurable,
+    getLatestUserText(state.messages),
+  );
+  const sys = EXTRACTION_PROMPT.replace(
+    "{memories}",
+    formatMemories(memories) || "None yet.",
+  ).replace("{time}", new Date().toISOString());
+
+  const modelConfig = {
+    configurable: splitModelAndProvider(configurable.model),
+  };
+  // Long conversations are trimmed to their most recent turns.
+  const context = await prepareContext({
+    systemPrompt: sys,
+    messages: state.messages,
+    modelName: configurable.model,
+    model: llm.withConfig(modelConfig),
+    maxContextTokens: configurable.maxContextTokens,
+    strategy: "trim",
+  });
+  const [system, ...conversation] = context.messages;
+
+  // Kind tools take JSON Schema input, so they are passed as tool definitions
+  // that every provider accepts.
+  const boundLLM = llm.bind({
+    tools: initializeTools(config, getProvenance(state)).map((tool) =>
+      convertToOpenAITool(tool),
+    ),
+    tool_choice: "auto",
+  });
+  const result = await boundLLM.invoke(
+    [
+      system,
+      new HumanMessage(
+        `<conversation>\n${formatTranscript(conversation)}\n</conversation>`,
+      ),
+      ...state.steps,
+    ],
+    modelConfig,
+  );
+
+  return { steps: [result] };
+}
+
+/**
+ * Describe a proposed save for the reviewer, one field per line.
+ */
+function describeMemoryWrite(kind: string, args: Record<string, any>): string {
+  const { scope, ttlDays, sourceMessageIds: _sourceMessageIds, ...data } = args;
+  const fields = Object.entries(data)
+    .map(
+      ([key, value]) =>
+        `- **${key}**: ${typeof value === "string" ? value : JSON.stringify(value)}`,
+    )
+    .join("\n");
+  return `The assistant wants to remember this in ${scope ? `the ${scope} scope's` : "its"} \
+**${kind}**${ttlDays ? `, for ${ttlDays} days` : ""}:
+
+${fields}
+
+Accept to save it, edit it first, respond with a correction, or ignore it to discard it.`;
+}
+
+/**
+ * Describe a proposed deletion for the reviewer.
+ */
+function describeMemoryDelete(args: Record<string, any>): string {
+  const { kind, memoryId, scope } = args;
+  return `The assistant wants to forget ${kind ? `the **${kind}** memory` : "the memory"} \
+**${memoryId}**${scope ? ` in the ${scope} scope` : ""}.
+
+Accept to delete it, respond with a correction, or ignore it to keep it.`;
+}
+
+/**
+ * Pause for the user to review a memory save or deletion.
+ * @param description What the change does, shown to the user.
+ * @returns The call to run, as edited by the user, or the rejection to
+ * report back to the model.
+ */
+function reviewMemoryWrite(
+  toolCall: ToolCall,
+  description: string,
+): ToolCall | ToolMessage {
+  const request: HumanInterrupt = {
+    action_request: { action: toolCall.name, args: toolCall.args },
+    config: {
+      allow_accept: true,
+      allow_edit: true,
+      allow_respond: true,
+      allow_ignore: true,
+    },
+    description,
+  };
+  // The agent inbox resumes with a list holding one response per request.
+  const [response] = interrupt<HumanInterrupt[], HumanResponse[]>([request]);
+
+  if (response.type === "accept") {
+    return toolCall;
+  }
+  if (response.type === "edit" && typeof response.args === "object") {
+    return {
+      ...toolCall,
+      args: parseEditedArgs(toolCall.args, response.args?.args ?? {}),
+    };
+  }
+  return new ToolMessage({
+    name: toolCall.name,
+    tool_call_id: toolCall.id ?? "",
+    content:
+      response.type === "response"
+        ? `The user rejected this change, nothing was stored or deleted. They said: ${response.args}`
+        : "The user rejected this change, nothing was stored or deleted. Do not make it again.",
+    status: "error",
+  });
+}
+
+async function storeMemory(
+  state: typeof ExtractionAnnotation.State,
+  config: LangGraphRunnableConfig,
+): Promise<typeof ExtractionAnnotation.Update> {
+  const lastMessage = state.steps[state.steps.length - 1] as AIMessage;
+  const toolCalls = lastMessage.tool_calls || [];
+
+  // Run each call with the memory tool it names. Failures, such as values
+  // that do not match a kind's schema, are returned so the model can retry.
+  const tools = initializeTools(config, getProvenance(state));
+  const toolsByName: Record<string, StructuredToolInterface> =
+    Object.fromEntries(tools.map((tool) => [tool.name, tool]));
+
+  // With memoryApproval, every save and deletion waits for the user before
+  // any of them is run. Listing and searching change nothing, so they do not.
+  const configurable = ensureConfiguration(config);
+  const kindsByTool = Object.fromEntries(
+    configurable.memoryKinds.map((kind) => [getKindToolName(kind), kind.name]),
+  );
+  const reviewed = toolCalls.map((tc) => {
+    if (!configurable.memoryApproval) {
+      return tc;
+    }
+    if (kindsByTool[tc.name]) {
+      return reviewMemoryWrite(
+        tc,
+        describeMemoryWrite(kindsByTool[tc.name], tc.args),
+      );
+    }
+    if (tc.name === "deleteMemory") {
+      return reviewMemoryWrite(tc, describeMemoryDelete(tc.args));
+    }
+    return tc;
+  });
+
+  const results = await Promise.all(
+    reviewed.map(async (tc) => {
+      if (tc instanceof ToolMessage) {
+        return tc;
+      }
+      const tool = toolsByName[tc.name];
+      if (!tool) {
+        return new ToolMessage({
+          name: tc.name,
+          tool_call_id: tc.id ?? "",
+          content: `Unknown tool "${tc.name}". Available tools: ${Object.keys(
+            toolsByName,
+          ).join(", ")}`,
+          status: "error",
+        });
+      }
+      try {
+        return await tool.invoke(tc);
+      } catch (error) {
+        return new ToolMessage({
+          name: tc.name,
+          tool_call_id: tc.id ?? "",
+          content: `Error: ${error instanceof Error ? error.message : String(error)}`,
+          status: "error",
+        });
+      }
+    }),
+  );
+
+  return { steps: results };
+}
+
+function routeMessage(
+  state: typeof ExtractionAnnotation.State,
+): "store_memory" | typeof END {
+  const lastMessage = state.steps[state.steps.length - 1] as AIMessage;
+  if (lastMessage.tool_calls?.length) {
+    return "store_memory";
+  }
+  return END;
+}
+
+function routeAfterStore(
+  state: typeof ExtractionAnnotation.State,
+  config: LangGraphRunnableConfig,
+): "extract_memories" | typeof END {
+  // Stop a model that keeps calling tools after maxExtractionSteps rounds.
+  const rounds = state.steps.filter(
+    (message) => message._getType() === "ai",
+  ).length;
+  if (rounds >= ensureConfiguration(config).maxExtractionSteps) {
+    return END;
+  }
+  return "extract_memories";
+}
+
+// Create the graph + all nodes
+export const builder = new StateGraph(
+  {
+    stateSchema: ExtractionAnnotation,
+  },
+  ConfigurationAnnotation,
+)
+  .addNode("extract_memories", extractMemories)
+  .addNode("store_memory", storeMemory)
+  .addEdge(START, "extract_memories")
+  .addConditionalEdges("extract_memories", routeMessage, {
+    store_memory: "store_memory",
+    [END]: END,
+  })
+  .addConditionalEdges("store_memory", routeAfterStore, {
+    extract_memories: "extract_memories",
+    [END]: END,
+  });
+
+export const graph = builder.compile();
+graph.name = "MemoryExtraction";
+
+/** The namespace extraction thread ids are generated in. */
+const EXTRACTION_THREAD_NAMESPACE = "0d8f3b6a-52c1-4e7a-9f4d-3b1e6c8a2f90";
+
+/**
+ * Get the thread a chat thread's extractions run on. Each chat thread has its
+ * own, so a new extraction can replace the one still waiting for it.
+ */
+export function getExtractionThreadId(userId: string, threadId: string) {
+  return uuidv5(`${userId}\n${threadId}`, EXTRACTION_THREAD_NAMESPACE);
+}
+
+/**
+ * Schedule memory extraction for a conversation once it goes quiet, as a
+ * delayed run of the extraction graph on the LangGraph server. Each new turn
+ * in the same thread rolls back the run still waiting and schedules a new
+ * one, so a burst of messages is reflected on once, with the whole
+ * conversation. The run survives restarts, runs on a single worker and is
+ * traced like any other run.
+ * @param client The LangGraph client to schedule the run with.
+ * @param threadId The thread the conversation belongs to.
+ * @param messages The conversation so far.
+ * @param configuration The chat graph's configuration, reused for extraction.
+ * @param runId The chat run that scheduled it, recorded with the memories.
+ */
+export async function scheduleMemoryExtraction(
+  client: Client,
+  threadId: string,
+  messages: BaseMessage[],
+  configuration: Configuration,
+  runId?: string,
+) {
+  await client.runs.create(
+    getExtractionThreadId(configuration.userId, threadId),
+    configuration.extractionAssistantId,
+    {
+      input: { messages, threadId, runId, steps: "delete" },
+      config: { configurable: configuration },
+      multitaskStrategy: "rollback",
+      ifNotExists: "create",
+      afterSeconds: configuration.extractionDelaySeconds,
+    },
+  );
+}
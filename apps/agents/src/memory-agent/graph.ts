@@ -5,82 +5,134 @@ import {
   StateGraph,
   END,
 } from "@langchain/langgraph";
-import { BaseMessage, AIMessage } from "@langchain/core/messages";
+import { Client } from "@langchain/langgraph-sdk";
 import { initChatModel } from "langchain/chat_models/universal";
-import { initializeTools } from "./tools.js";
 import {
   ConfigurationAnnotation,
   ensureConfiguration,
 } from "./configuration.js";
+import {
+  graph as extractionGraph,
+  scheduleMemoryExtraction,
+} from "./extraction.js";
+import { markRecalled } from "./lifecycle.js";
 import { GraphAnnotation } from "./state.js";
-import { getStoreFromConfigOrThrow, splitModelAndProvider } from "./utils.js";
+import { prepareContext } from "../shared/context.js";
+import {
+  formatMemories,
+  getLatestUserText,
+  getStoreFromConfigOrThrow,
+  recallMemories,
+  splitModelAndProvider,
+} from "./utils.js";
 
 async function callModel(
   state: typeof GraphAnnotation.State,
   config: LangGraphRunnableConfig,
-): Promise<{ messages: BaseMessage[] }> {
+): Promise<typeof GraphAnnotation.Update> {
   const llm = await initChatModel();
   const store = getStoreFromConfigOrThrow(config);
   const configurable = ensureConfiguration(config);
-  const memories = await store.search(["memories", configurable.userId], {
-    limit: 10,
-  });
-
-  let formatted =
-    memories
-      ?.map((mem) => `[${mem.key}]: ${JSON.stringify(mem.value)}`)
-      ?.join("\n") || "";
-  if (formatted) {
-    formatted = `\n<memories>\n${formatted}\n</memories>`;
-  }
+  // Recall the profile and the memories most relevant to what the user just said.
+  const memories = await recallMemories(
+    store,
+    configurable,
+    getLatestUserText(state.messages),
+  );
+  await markRecalled(store, memories);
+  const formatted = formatMemories(memories);
 
   const sys = configurable.systemPrompt
     .replace("{user_info}", formatted)
     .replace("{time}", new Date().toISOString());
 
-  const tools = initializeTools(config);
-  const boundLLM = llm.bind({
-    tools: tools,
-    tool_choice: "auto",
+  const modelConfig = {
+    configurable: splitModelAndProvider(configurable.model),
+  };
+  const context = await prepareContext({
+    systemPrompt: sys,
+    messages: state.messages,
+    summary: state.summary,
+    modelName: configurable.model,
+    model: llm.withConfig(modelConfig),
+    maxContextTokens: configurable.maxContextTokens,
+    strategy: configurable.contextStrategy,
   });
 
-  const result = await boundLLM.invoke(
-    [{ role: "system", content: sys }, ...state.messages],
-    {
-      configurable: splitModelAndProvider(configurable.model),
-    },
-  );
+  const result = await llm.invoke(context.messages, modelConfig);
 
-  return { messages: [result] };
+  return {
+    messages: [result],
+    ...(context.summary && { summary: context.summary }),
+  };
 }
 
-async function storeMemory(
+async function extractMemories(
   state: typeof GraphAnnotation.State,
   config: LangGraphRunnableConfig,
-): Promise<{ messages: BaseMessage[] }> {
-  const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
-  const toolCalls = lastMessage.tool_calls || [];
-
-  const tools = initializeTools(config);
-  const upsertMemoryTool = tools[0];
-
-  const savedMemories = await Promise.all(
-    toolCalls.map(async (tc) => {
-      return await upsertMemoryTool.invoke(tc);
-    }),
+): Promise<typeof GraphAnnotation.Update> {
+  // Run as part of the turn, so each save can pause for the user's approval
+  // in this thread.
+  await extractionGraph.invoke(
+    {
+      messages: state.messages,
+      threadId: config.configurable?.thread_id,
+      runId: config.configurable?.run_id ?? config.runId,
+    },
+    {
+      ...config,
+      configurable: { ...config.configurable, ...ensureConfiguration(config) },
+    },
   );
-
-  return { messages: savedMemories };
+  return {};
 }
 
-function routeMessage(
+async function scheduleMemories(
   state: typeof GraphAnnotation.State,
-): "store_memory" | typeof END {
-  const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
-  if (lastMessage.tool_calls?.length) {
-    return "store_memory";
+  config: LangGraphRunnableConfig,
+): Promise<typeof GraphAnnotation.Update> {
+  // Memories are extracted in a later run on the LangGraph server once the
+  // thread goes quiet, so the reply is not held up by deciding what to
+  // remember.
+  const client = new Client({
+    apiUrl: process.env.LANGGRAPH_API_URL || "http://localhost:2024",
+  });
+  try {
+    await scheduleMemoryExtraction(
+      client,
+      config.configurable?.thread_id ?? "default",
+      state.messages,
+      ensureConfiguration(config),
+      config.configurable?.run_id ?? config.runId,
+    );
+  } catch (error) {
+    // The reply is already made, so the turn must not fail over memories.
+    // Without a server to run it later, extract them in this run instead.
+    console.warn(
+      "Could not schedule memory extraction, extracting in this run:",
+      error instanceof Error ? error.message : error,
+    );
+    try {
+      await extractMemories(state, config);
+    } catch (extractionError) {
+      console.warn(
+        "Memory extraction failed:",
+        extractionError instanceof Error
+          ? extractionError.message
+          : extractionError,
+      );
+    }
   }
-  return END;
+  return {};
+}
+
+function routeMemories(
+  _state: typeof GraphAnnotation.State,
+  config: LangGraphRunnableConfig,
+): "extract_memories" | "schedule_memories" {
+  return ensureConfiguration(config).memoryApproval
+    ? "extract_memories"
+    : "schedule_memories";
 }
 
 // Create the graph + all nodes
@@ -91,13 +143,15 @@ export const builder = new StateGraph(
   ConfigurationAnnotation,
 )
   .addNode("call_model", callModel)
-  .addNode("store_memory", storeMemory)
+  .addNode("schedule_memories", scheduleMemories)
+  .addNode("extract_memories", extractMemories)
   .addEdge(START, "call_model")
-  .addConditionalEdges("call_model", routeMessage, {
-    store_memory: "store_memory",
-    [END]: END,
-  })
-  .addEdge("store_memory", "call_model");
+  .addConditionalEdges("call_model", routeMemories, [
+    "extract_memories",
+    "schedule_memories",
+  ])
+  .addEdge("schedule_memories", END)
+  .addEdge("extract_memories", END);
 
 export const graph = builder.compile();
 graph.name = "MemoryAgent";
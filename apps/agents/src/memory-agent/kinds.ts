@@ -0,0 +1,148 @@
+// Memory kinds
+//
+// Each kind of memory has its own JSON schema and its own namespace in each
+// scope, such as `["memories", userId, kind]` (see scopes.ts). A `patch` kind
+// is a single document, such as a user profile, updated in place. An
+// `insert` kind is an append-only collection, such as facts or episodes.
+import { Validator } from "@langchain/core/utils/json_schema";
+
+/**
+ * A kind of memory the agent keeps, declared in configuration.
+ */
+export interface MemoryKind {
+  /** Name of the kind, used in the namespace and tool name, e.g. `profile`. */
+  name: string;
+  /** What the kind holds and when to save to it, shown to the model. */
+  description: string;
+  /**
+   * `patch` keeps one document updated in place; `insert` appends a new
+   * item on every save.
+   */
+  updateMode: "patch" | "insert";
+  /** JSON Schema every stored value must validate against. */
+  schema: Record<string, any>;
+  /**
+   * Days until items of an `insert` kind expire, unless the model sets a
+   * different TTL when saving one. Omit to keep items until deleted.
+   */
+  ttlDays?: number;
+}
+
+export const DEFAULT_MEMORY_KINDS: MemoryKind[] = [
+  {
+    name: "profile",
+    description:
+      "The user's profile. Update it when the user shares who they are, \
+what they do or what they prefer.",
+    updateMode: "patch",
+    schema: {
+      type: "object",
+      properties: {
+        name: { type: "string", description: "The user's name." },
+        role: {
+          type: "string",
+          description: "The user's job or role, e.g. 'data scientist'.",
+        },
+        preferences: {
+          type: "object",
+          description:
+            "The user's preferences by topic, e.g. { food: 'loves pizza' }.",
+          additionalProperties: { type: "string" },
+        },
+      },
+      additionalProperties: false,
+    },
+  },
+  {
+    name: "facts",
+    description:
+      "Facts about the user and events they mention that do not fit the \
+profile. Save one fact per call.",
+    updateMode: "insert",
+    schema: {
+      type: "object",
+      properties: {
+        content: {
+          type: "string",
+          description:
+            "The fact itself, e.g. 'User is learning French for a move to Lyon.'",
+        },
+        context: {
+          type: "string",
+          description:
+            "When and why it came up, e.g. 'Mentioned while discussing career options in Europe.'",
+        },
+      },
+      required: ["content"],
+      additionalProperties: false,
+    },
+  },
+];
+
+/**
+ * Get the store namespace for a kind of memory in a scope.
+ * @param scopeNamespace The scope's namespace, see `getScopeNamespace`.
+ */
+export function getKindNamespace(
+  scopeNamespace: string[],
+  kind: MemoryKind,
+): string[] {
+  return [...scopeNamespace, kind.name];
+}
+
+/**
+ * Validate a value's data against a kind's schema. Pass the value without
+ * its timestamps, see `getMemoryData`.
+ * @returns The validation errors, empty if the value is valid.
+ */
+export function validateMemory(kind: MemoryKind, value: unknown): string[] {
+  const result = new Validator(kind.schema, undefined, false).validate(value);
+  return result.valid
+    ? []
+    : result.errors.map((error) => `${error.instanceLocation}: ${error.error}`);
+}
+
+/**
+ * The schema for a patch to a `patch` kind: the same fields, none required,
+ * and `null` to remove a field.
+ */
+export function getPatchSchema(kind: MemoryKind): Record<string, any> {
+  const { required: _required, properties = {}, ...schema } = kind.schema;
+  return {
+    ...schema,
+    properties: Object.fromEntries(
+      Object.entries(properties).map(([key, property]) => [
+        key,
+        { anyOf: [property, { type: "null" }] },
+      ]),
+    ),
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Apply a JSON merge patch (RFC 7386): objects are merged key by key, `null`
+ * removes a key, and any other value replaces what was there.
+ */
+export function applyMergePatch(
+  target: Record<string, any>,
+  patch: Record<string, any>,
+): Record<string, any> {
+  const result = { ...target };
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else if (isPlainObject(value)) {
+      result[key] = applyMergePatch(
+        isPlainObject(result[key]) ? result[key] : {},
+        value,
+      );
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
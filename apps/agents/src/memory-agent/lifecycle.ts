@@ -0,0 +1,267 @@
+// Memory lifecycle
+//
+// Every stored memory value carries timestamps next to its data:
+// `created_at`, `updated_at`, `last_recalled_at` and, for memories that
+// expire, `expires_at`. They are used to rank recalled memories by recency
+// and to sweep out expired ones. Values also record their `sources`, the
+// threads and messages they were learned from. Only the data fields are
+// embedded.
+import { BaseStore, Item } from "@langchain/langgraph";
+import { isInNamespace } from "./scopes.js";
+
+/**
+ * Where a memory was learned: a conversation turn the user can be taken back
+ * to.
+ */
+export interface MemorySource {
+  thread_id: string;
+  /** The chat run whose turn was reflected on, if known. */
+  run_id?: string;
+  /** The ids of the messages the memory came from. */
+  message_ids: string[];
+}
+
+/**
+ * Timestamps, as ISO strings, and sources stored alongside a memory's data.
+ */
+export interface MemoryMetadata {
+  created_at: string;
+  updated_at: string;
+  last_recalled_at?: string;
+  expires_at?: string;
+  /** Oldest first. Documents updated from many threads keep the latest few. */
+  sources?: MemorySource[];
+}
+
+const METADATA_FIELDS: (keyof MemoryMetadata)[] = [
+  "created_at",
+  "updated_at",
+  "last_recalled_at",
+  "expires_at",
+  "sources",
+];
+
+/** How many sources a memory keeps. */
+export const MAX_MEMORY_SOURCES = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get a memory's data, without its timestamps. This is what a kind's schema
+ * validates.
+ */
+export function getMemoryData(value: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(value).filter(
+      ([key]) => !METADATA_FIELDS.includes(key as keyof MemoryMetadata),
+    ),
+  );
+}
+
+/**
+ * Get a memory's timestamps. Memories written before timestamps were
+ * recorded fall back to the store's own times.
+ */
+export function getMemoryMetadata(item: Item): MemoryMetadata {
+  const value = item.value as Partial<MemoryMetadata>;
+  return {
+    created_at: value.created_at ?? new Date(item.createdAt).toISOString(),
+    updated_at: value.updated_at ?? new Date(item.updatedAt).toISOString(),
+    last_recalled_at: value.last_recalled_at,
+    expires_at: value.expires_at,
+    sources: value.sources,
+  };
+}
+
+/**
+ * Options for `putMemory`.
+ */
+export interface PutMemoryOptions {
+  /** The memory being replaced, whose creation time is kept. */
+  existing?: Item | null;
+  /** Days until the memory expires. Omit to keep it until deleted. */
+  ttlDays?: number;
+  /** Creation time to record, for memories merged from older ones. */
+  createdAt?: string;
+  /** Expiry time to record, instead of computing one from `ttlDays`. */
+  expiresAt?: string;
+  /** Where this write was learned, added to the existing memory's sources. */
+  source?: MemorySource;
+  /** Sources to record instead, for memories merged from older ones. */
+  sources?: MemorySource[];
+}
+
+/**
+ * Write a memory with its timestamps and sources. Only the data fields are
+ * embedded, so metadata does not affect semantic search.
+ */
+export async function putMemory(
+  store: BaseStore,
+  namespace: string[],
+  key: string,
+  data: Record<string, any>,
+  options: PutMemoryOptions = {},
+): Promise<Record<string, any>> {
+  const now = new Date();
+  const existing = options.existing
+    ? getMemoryMetadata(options.existing)
+    : undefined;
+  const expiresAt =
+    options.expiresAt ??
+    (options.ttlDays
+      ? new Date(now.getTime() + options.ttlDays * DAY_MS).toISOString()
+      : undefined);
+  const sources = (
+    options.sources ?? [
+      ...(existing?.sources ?? []),
+      ...(options.source ? [options.source] : []),
+    ]
+  ).slice(-MAX_MEMORY_SOURCES);
+  const value: Record<string, any> = {
+    ...data,
+    created_at: options.createdAt ?? existing?.created_at ?? now.toISOString(),
+    updated_at: now.toISOString(),
+    ...(expiresAt && { expires_at: expiresAt }),
+    ...(sources.length > 0 && { sources }),
+  };
+  await store.put(namespace, key, value, Object.keys(data));
+  return value;
+}
+
+/**
+ * Check whether a memory has passed its expiry time.
+ */
+export function isExpired(item: Item, now = new Date()): boolean {
+  const { expires_at } = getMemoryMetadata(item);
+  return expires_at !== undefined && new Date(expires_at) <= now;
+}
+
+/**
+ * Options for `rankMemories`.
+ */
+export interface RankingOptions {
+  /** Share of the ranking score from recency, 0 to 1. The rest is relevance. */
+  recencyWeight: number;
+  /** Age in days at which a memory's recency score halves. */
+  recencyHalfLifeDays: number;
+}
+
+/**
+ * Score a memory's recency from 1, just updated, towards 0 as it ages.
+ */
+export function getRecency(
+  item: Item,
+  halfLifeDays: number,
+  now = new Date(),
+): number {
+  const ageDays =
+    (now.getTime() - new Date(getMemoryMetadata(item).updated_at).getTime()) /
+    DAY_MS;
+  return Math.pow(0.5, Math.max(ageDays, 0) / halfLifeDays);
+}
+
+/**
+ * Order memories by a mix of relevance and recency, best first. Memories
+ * without a relevance score, from a store without an index, are ranked by
+ * recency alone.
+ */
+export function rankMemories<T extends Item & { score?: number }>(
+  items: T[],
+  options: RankingOptions,
+  now = new Date(),
+): T[] {
+  const rank = (item: T) => {
+    const recency = getRecency(item, options.recencyHalfLifeDays, now);
+    return item.score === undefined
+      ? recency
+      : (1 - options.recencyWeight) * item.score +
+          options.recencyWeight * recency;
+  };
+  return items
+    .map((item) => ({ item, rank: rank(item) }))
+    .sort((a, b) => b.rank - a.rank)
+    .map(({ item }) => item);
+}
+
+/**
+ * Record that memories were shown to the model. The time is only kept to the
+ * day: memories already marked in the last day are not written again, so
+ * recall does not write every memory it shows on every turn. The data is
+ * unchanged, so nothing is re-embedded.
+ */
+export async function markRecalled(
+  store: BaseStore,
+  items: Item[],
+  now = new Date(),
+) {
+  const recalledAt = now.toISOString();
+  const isStale = (item: Item) => {
+    const last = getMemoryMetadata(item).last_recalled_at;
+    return !last || now.getTime() - new Date(last).getTime() >= DAY_MS;
+  };
+  await Promise.all(
+    items.filter(isStale).map(async (item) => {
+      // Write over the stored memory, not the recalled copy, so an update or
+      // deletion since it was recalled is not undone.
+      const current = await store.get(item.namespace, item.key);
+      if (!current || !isStale(current)) {
+        return;
+      }
+      // Keep its times, so the write does not make it look newly updated.
+      const { created_at, updated_at } = getMemoryMetadata(current);
+      await store.put(
+        item.namespace,
+        item.key,
+        {
+          ...current.value,
+          created_at,
+          updated_at,
+          last_recalled_at: recalledAt,
+        },
+        false,
+      );
+    }),
+  );
+}
+
+/** Page size used to read every memory in a namespace. */
+const PAGE_SIZE = 100;
+
+/**
+ * Read every memory in a namespace and the namespaces under it, and no
+ * others, such as those of users whose id starts with the same letters.
+ */
+export async function listAllMemories(
+  store: BaseStore,
+  namespace: string[],
+): Promise<Item[]> {
+  const items: Item[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await store.search(namespace, { limit: PAGE_SIZE, offset });
+    items.push(
+      ...page.filter((item) => isInNamespace(item.namespace, namespace)),
+    );
+    if (page.length < PAGE_SIZE) {
+      return items;
+    }
+  }
+}
+
+/**
+ * Delete the expired memories in a scope.
+ * @param namespace The scope's namespace, see `getScopeNamespace`.
+ * @returns The memories that were deleted.
+ */
+export async function sweepExpiredMemories(
+  store: BaseStore,
+  namespace: string[],
+): Promise<Item[]> {
+  const now = new Date();
+  const expired = (await listAllMemories(store, namespace)).filter((item) =>
+    isExpired(item, now),
+  );
+  await Promise.all(
+    expired.map((item) => store.delete(item.namespace, item.key)),
+  );
+  return expired;
+}
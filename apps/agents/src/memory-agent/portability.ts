@@ -0,0 +1,351 @@
+// Memory portability graph
+//
+// Exports all of a user's memories as versioned JSON, imports such a file,
+// and erases every memory kept about a user. Only the user's own scope is
+// covered; team and org memories are shared, so they are left alone.
+// Erasing takes two runs: the first returns a confirmation token, the second
+// erases when given it back. Every run leaves an audit record under
+// `["memory_audit", userId]`.
+import {
+  BaseStore,
+  END,
+  LangGraphRunnableConfig,
+  START,
+  StateGraph,
+} from "@langchain/langgraph";
+import { v4 as uuidv4 } from "uuid";
+import {
+  ConfigurationAnnotation,
+  ensureConfiguration,
+} from "./configuration.js";
+import {
+  applyMergePatch,
+  getKindNamespace,
+  MemoryKind,
+  validateMemory,
+} from "./kinds.js";
+import { getMemoryData, listAllMemories } from "./lifecycle.js";
+import {
+  AuditRecord,
+  ExportedMemory,
+  MemoryExport,
+  PortabilityAnnotation,
+} from "./state.js";
+import { getScopeNamespace } from "./scopes.js";
+import { getStoreFromConfigOrThrow } from "./utils.js";
+
+/** The version written to, and accepted in, export files. */
+export const MEMORY_EXPORT_VERSION = 1;
+
+/** How long an erase confirmation token is accepted for. */
+const CONFIRMATION_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Get the namespace of a user's own memories.
+ */
+function getUserNamespace(userId: string): string[] {
+  return getScopeNamespace("user", { userId, teamId: "", orgId: "" })!;
+}
+
+/**
+ * Check an export file before anything is written, so a bad file never
+ * leaves a partial import behind.
+ * @returns The problems found, empty if the file can be imported.
+ */
+export function validateMemoryExport(
+  file: unknown,
+  kinds: MemoryKind[],
+): string[] {
+  const data = file as Partial<MemoryExport> | undefined;
+  if (!data || typeof data !== "object") {
+    return ["The export file must be a JSON object"];
+  }
+  if (data.version !== MEMORY_EXPORT_VERSION) {
+    return [
+      `Unsupported export version ${data.version}, expected ${MEMORY_EXPORT_VERSION}`,
+    ];
+  }
+  if (!Array.isArray(data.memories)) {
+    return ["The export file has no memories list"];
+  }
+
+  return data.memories.flatMap((memory: ExportedMemory, index) => {
+    // Memories saved before memory kinds existed have no kind, and no schema
+    // to check them against.
+    if (memory && typeof memory === "object" && !memory.kind) {
+      if (typeof memory.key !== "string" || !memory.key) {
+        return [`memories[${index}]: missing key`];
+      }
+      return memory.value && typeof memory.value === "object"
+        ? []
+        : [`memories[${index}]: missing value`];
+    }
+    const kind = kinds.find((k) => k.name === memory?.kind);
+    if (!kind) {
+      return [`memories[${index}]: unknown memory kind "${memory?.kind}"`];
+    }
+    if (typeof memory.key !== "string" || !memory.key) {
+      return [`memories[${index}]: missing key`];
+    }
+    if (kind.updateMode === "patch" && memory.key !== kind.name) {
+      return [
+        `memories[${index}]: ${kind.name} must use the key "${kind.name}"`,
+      ];
+    }
+    return validateMemory(kind, getMemoryData(memory.value ?? {})).map(
+      (error) => `memories[${index}]: ${error}`,
+    );
+  });
+}
+
+/**
+ * Delete every memory and consolidation report kept about a user.
+ * @returns The number of memories deleted.
+ */
+async function eraseUserMemories(
+  store: BaseStore,
+  userId: string,
+): Promise<number> {
+  const memories = await listAllMemories(store, getUserNamespace(userId));
+  // Reports list the memories they merged, so they go too.
+  const reports = await listAllMemories(store, ["memory_reports", userId]);
+  await Promise.all(
+    [...memories, ...reports].map((item) =>
+      store.delete(item.namespace, item.key),
+    ),
+  );
+  return memories.length;
+}
+
+/**
+ * Start an audit record for the current run.
+ */
+function startAudit(
+  operation: AuditRecord["operation"],
+  userId: string,
+  config: LangGraphRunnableConfig,
+): Omit<AuditRecord, "status" | "details"> {
+  return {
+    operation,
+    userId,
+    at: new Date().toISOString(),
+    runId: config.configurable?.run_id ?? config.runId,
+  };
+}
+
+async function exportMemories(
+  _state: typeof PortabilityAnnotation.State,
+  config: LangGraphRunnableConfig,
+): Promise<typeof PortabilityAnnotation.Update> {
+  const store = getStoreFromConfigOrThrow(config);
+  const { userId } = ensureConfiguration(config);
+
+  const audit = startAudit("export", userId, config);
+  const items = await listAllMemories(store, getUserNamespace(userId));
+  const file: MemoryExport = {
+    version: MEMORY_EXPORT_VERSION,
+    userId,
+    exportedAt: audit.at,
+    memories: items.map((item) => ({
+      ...(item.namespace[2] !== undefined && { kind: item.namespace[2] }),
+      key: item.key,
+      value: item.value,
+    })),
+  };
+
+  return {
+    export: file,
+    audit: {
+      ...audit,
+      status: "succeeded",
+      details: { memories: file.memories.length },
+    },
+  };
+}
+
+async function importMemories(
+  state: typeof PortabilityAnnotation.State,
+  config: LangGraphRunnableConfig,
+): Promise<typeof PortabilityAnnotation.Update> {
+  const store = getStoreFromConfigOrThrow(config);
+  const { userId, memoryKinds } = ensureConfiguration(config);
+
+  const audit = startAudit("import", userId, config);
+  const errors = validateMemoryExport(state.file, memoryKinds);
+  if (errors.length) {
+    return {
+      audit: {
+        ...audit,
+        status: "failed",
+        details: { mode: state.mode },
+        error: `Invalid export file, nothing was imported:\n${errors.join("\n")}`,
+      },
+    };
+  }
+
+  const removed =
+    state.mode === "replace" ? await eraseUserMemories(store, userId) : 0;
+  const { memories } = state.file!;
+  for (const memory of memories) {
+    // Memories without a kind go back where they were kept before kinds.
+    const kind = memoryKinds.find((k) => k.name === memory.kind);
+    const namespace = kind
+      ? getKindNamespace(getUserNamespace(userId), kind)
+      : getUserNamespace(userId);
+    let data = getMemoryData(memory.value);
+    // When merging, an imported document is patched into the existing one,
+    // so fields only the existing one has are kept.
+    if (state.mode === "merge" && kind?.updateMode === "patch") {
+      const existing = await store.get(namespace, memory.key);
+      if (existing) {
+        data = applyMergePatch(getMemoryData(existing.value), data);
+      }
+    }
+    // Imported timestamps are kept; only the data fields are embedded.
+    await store.put(
+      namespace,
+      memory.key,
+      { ...memory.value, ...data },
+      Object.keys(data),
+    );
+  }
+
+  return {
+    imported: { memories: memories.length, removed },
+    audit: {
+      ...audit,
+      status: "succeeded",
+      details: {
+        mode: state.mode,
+        sourceUserId: state.file!.userId,
+        exportedAt: state.file!.exportedAt,
+        memories: memories.length,
+        removed,
+      },
+    },
+  };
+}
+
+async function eraseMemories(
+  state: typeof PortabilityAnnotation.State,
+  config: LangGraphRunnableConfig,
+): Promise<typeof PortabilityAnnotation.Update> {
+  const store = getStoreFromConfigOrThrow(config);
+  const { userId } = ensureConfiguration(config);
+
+  const audit = startAudit("erase", userId, config);
+  const tokenNamespace = ["memory_erase_requests", userId];
+  const pending = await store.get(tokenNamespace, "pending");
+
+  if (!state.confirmationToken) {
+    const confirmationToken = uuidv4();
+    const expiresAt = new Date(Date.now() + CONFIRMATION_TTL_MS).toISOString();
+    await store.put(
+      tokenNamespace,
+      "pending",
+      { token: confirmationToken, expires_at: expiresAt },
+      false,
+    );
+    const memories = (await listAllMemories(store, getUserNamespace(userId)))
+      .length;
+    return {
+      erase: {
+        status: "confirmation_required",
+        confirmationToken,
+        expiresAt,
+        memories,
+      },
+      audit: {
+        ...audit,
+        status: "confirmation_required",
+        details: { memories, expiresAt },
+      },
+    };
+  }
+
+  const expired =
+    pending !== null && new Date(pending.value.expires_at) <= new Date();
+  if (!pending || expired || pending.value.token !== state.confirmationToken) {
+    return {
+      audit: {
+        ...audit,
+        status: "failed",
+        details: {},
+        error: expired
+          ? "The confirmation token has expired, request a new one"
+          : "Invalid confirmation token, request a new one",
+      },
+    };
+  }
+
+  await store.delete(tokenNamespace, "pending");
+  const memories = await eraseUserMemories(store, userId);
+  return {
+    erase: { status: "erased", memories },
+    audit: { ...audit, status: "succeeded", details: { memories } },
+  };
+}
+
+async function writeAudit(
+  state: typeof PortabilityAnnotation.State,
+  config: LangGraphRunnableConfig,
+): Promise<typeof PortabilityAnnotation.Update> {
+  const store = getStoreFromConfigOrThrow(config);
+  const audit = state.audit!;
+
+  // Audit records are kept outside ["memories", userId], so an erase never
+  // removes them and they are never recalled.
+  await store.put(
+    ["memory_audit", audit.userId],
+    `${audit.operation}-${audit.at}`,
+    audit,
+    false,
+  );
+  // Failures are recorded before they are raised.
+  if (audit.status === "failed") {
+    throw new Error(audit.error);
+  }
+
+  return {};
+}
+
+function routeOperation(
+  state: typeof PortabilityAnnotation.State,
+): "export_memories" | "import_memories" | "erase_memories" {
+  switch (state.operation) {
+    case "export":
+      return "export_memories";
+    case "import":
+      return "import_memories";
+    case "erase":
+      return "erase_memories";
+    default:
+      throw new Error(
+        `Unknown operation "${state.operation}". Use export, import or erase.`,
+      );
+  }
+}
+
+// Create the graph + all nodes
+export const builder = new StateGraph(
+  {
+    stateSchema: PortabilityAnnotation,
+  },
+  ConfigurationAnnotation,
+)
+  .addNode("export_memories", exportMemories)
+  .addNode("import_memories", importMemories)
+  .addNode("erase_memories", eraseMemories)
+  .addNode("write_audit", writeAudit)
+  .addConditionalEdges(START, routeOperation, [
+    "export_memories",
+    "import_memories",
+    "erase_memories",
+  ])
+  .addEdge("export_memories", "write_audit")
+  .addEdge("import_memories", "write_audit")
+  .addEdge("erase_memories", "write_audit")
+  .addEdge("write_audit", END);
+
+export const graph = builder.compile();
+graph.name = "MemoryPortability";
@@ -5,3 +5,36 @@ Ask questions! Be spontaneous!
 {user_info}
 
 System Time: {time}`;
+
+export const EXTRACTION_PROMPT = `You maintain the long-term memory of a chatbot about its user. \
+Read the conversation below and update the stored memories so they reflect everything worth remembering \
+about the user: who they are, their preferences, plans and important facts they shared.
+
+- Save new information with the tool for the kind of memory it belongs to. Update documents such as \
+the profile in place; add other facts to their collection.
+- When information changes or the user corrects you, update the document, or delete the outdated \
+collection item and save a corrected one, instead of creating a duplicate.
+- When the user asks you to forget something, or a memory turns out to be wrong, delete it with \`deleteMemory\`.
+- Use \`searchMemories\` or \`listMemories\` to find memories not shown below.
+- Memories are kept for the user, or shared with their team or organization. Save to a shared scope \
+only what everyone in it should know, such as team conventions or a project glossary, and only if \
+the tool lets you choose that scope.
+- Each message in the conversation starts with its id in brackets. When saving, pass the ids of the \
+messages the information came from as \`sourceMessageIds\`.
+- Do nothing if there is nothing new worth remembering.
+
+Existing memories most relevant to the conversation:
+{memories}
+
+System Time: {time}`;
+
+export const CONSOLIDATION_PROMPT = `You tidy up the long-term memory of a chatbot about its user. \
+The memories below are all of kind "{kind}" and look alike: they may repeat each other, overlap, or contradict each other.
+
+Merge them into as few canonical memories as keep every distinct piece of information. \
+When memories contradict each other, keep the newest one's version; the memories are listed oldest first, with the time each was saved. \
+Every merged memory must follow the schema for this kind. Explain what you merged and which contradictions you resolved in \`summary\`.
+
+<memories>
+{memories}
+</memories>`;
@@ -0,0 +1,105 @@
+// Memory scopes
+//
+// Memories are kept per user, under `["memories", userId, kind]`. Facts shared
+// across users, such as team conventions or a project glossary, are kept in
+// team and organization scopes, under `["memories", "team", teamId, kind]` and
+// `["memories", "org", orgId, kind]`. Every scope the user belongs to is
+// recalled; only the scopes listed in `writableScopes` can be written to.
+
+export type MemoryScope = "user" | "team" | "org";
+
+export const MEMORY_SCOPES: MemoryScope[] = ["user", "team", "org"];
+
+/**
+ * The ids that place a user in each scope. An empty team or org id means the
+ * user is not in that scope.
+ */
+export interface ScopeIds {
+  userId: string;
+  teamId: string;
+  orgId: string;
+}
+
+/**
+ * Get the store namespace for a scope, without a kind.
+ * @returns The namespace, or undefined if the user is not in the scope.
+ */
+export function getScopeNamespace(
+  scope: MemoryScope,
+  ids: ScopeIds,
+): string[] | undefined {
+  switch (scope) {
+    case "user":
+      // Shared scopes live next to user ids, so those names are taken.
+      if (ids.userId === "team" || ids.userId === "org") {
+        throw new Error(
+          `"${ids.userId}" is reserved for shared memories and cannot be a user id`,
+        );
+      }
+      return ["memories", ids.userId];
+    case "team":
+      return ids.teamId ? ["memories", "team", ids.teamId] : undefined;
+    case "org":
+      return ids.orgId ? ["memories", "org", ids.orgId] : undefined;
+    default:
+      throw new Error(`Unknown memory scope "${scope}"`);
+  }
+}
+
+/**
+ * Get every scope the user is in, with its namespace, user first.
+ */
+export function getActiveScopes(
+  ids: ScopeIds,
+): { scope: MemoryScope; namespace: string[] }[] {
+  return MEMORY_SCOPES.flatMap((scope) => {
+    const namespace = getScopeNamespace(scope, ids);
+    return namespace ? [{ scope, namespace }] : [];
+  });
+}
+
+/**
+ * Get the scopes the user is in and may write to.
+ */
+export function getWritableScopes(
+  ids: ScopeIds,
+  writableScopes: MemoryScope[],
+): { scope: MemoryScope; namespace: string[] }[] {
+  return getActiveScopes(ids).filter(({ scope }) =>
+    writableScopes.includes(scope),
+  );
+}
+
+/**
+ * Check whether a namespace is `prefix` or under it. Stores may match
+ * namespace prefixes as plain strings, so searching `["memories", "a"]` can
+ * also return the memories of user `ab`; results are checked with this.
+ */
+export function isInNamespace(namespace: string[], prefix: string[]): boolean {
+  return prefix.every((part, i) => namespace[i] === part);
+}
+
+/**
+ * Read where a memory is kept from its namespace.
+ */
+export function parseMemoryNamespace(namespace: string[]): {
+  scope: MemoryScope;
+  ownerId: string;
+  kind?: string;
+} {
+  const [, first, second, third] = namespace;
+  if (first === "team" || first === "org") {
+    return { scope: first, ownerId: second, kind: third };
+  }
+  return { scope: "user", ownerId: first, kind: second };
+}
+
+/**
+ * Label a memory's scope for the model, e.g. `team acme facts`.
+ */
+export function formatMemoryLocation(namespace: string[]): string {
+  const { scope, ownerId, kind } = parseMemoryNamespace(namespace);
+  return [scope === "user" ? "user" : `${scope} ${ownerId}`, kind]
+    .filter(Boolean)
+    .join(" ");
+}
@@ -4,6 +4,8 @@ import {
   Messages,
   messagesStateReducer,
 } from "@langchain/langgraph";
+import { MemoryScope } from "./scopes.js";
+import { ContextAnnotation } from "../shared/context.js";
 
 /**
  * Main graph state.
@@ -16,4 +18,222 @@ export const GraphAnnotation = Annotation.Root({
     reducer: messagesStateReducer,
     default: () => [],
   }),
+  /**
+   * The running summary of turns that no longer fit in the context window.
+   */
+  ...ContextAnnotation.spec,
+});
+
+/**
+ * Memory extraction graph state.
+ */
+export const ExtractionAnnotation = Annotation.Root({
+  /**
+   * The conversation to extract memories from. Each run is given the whole
+   * conversation, which replaces the one reflected on before.
+   */
+  messages: Annotation<BaseMessage[], Messages>({
+    reducer: (_existing, messages) => messagesStateReducer([], messages),
+    default: () => [],
+  }),
+  /**
+   * The thread the conversation belongs to, recorded as each memory's source.
+   */
+  threadId: Annotation<string | undefined>,
+  /**
+   * The chat run whose turn is being reflected on.
+   */
+  runId: Annotation<string | undefined>,
+  /**
+   * The extractor's own model calls and the results of its memory tool calls.
+   * A scheduled run clears the previous run's steps with "delete".
+   */
+  steps: Annotation<BaseMessage[], Messages | "delete">({
+    reducer: (existing, steps) =>
+      steps === "delete" ? [] : messagesStateReducer(existing, steps),
+    default: () => [],
+  }),
+});
+
+/**
+ * A group of similar memories of one kind, to be merged.
+ */
+export interface MemoryCluster {
+  /** The scope the cluster is in. */
+  scope: MemoryScope;
+  /** The kind of memory the cluster belongs to. */
+  kind: string;
+  /** The keys of the memories in the cluster. */
+  keys: string[];
+}
+
+/**
+ * What consolidation did to one cluster.
+ */
+export interface ConsolidationChange {
+  /** The scope the cluster was in. */
+  scope: MemoryScope;
+  /** The kind of memory the cluster belongs to. */
+  kind: string;
+  /** The memories that were merged and deleted. */
+  removed: { key: string; value: Record<string, any> }[];
+  /** The canonical memories written in their place. */
+  created: { key: string; value: Record<string, any> }[];
+  /** The model's explanation of the merge and any contradictions resolved. */
+  summary: string;
+}
+
+/**
+ * The change report written at the end of a consolidation run.
+ */
+export interface ConsolidationReport {
+  userId: string;
+  startedAt: string;
+  finishedAt: string;
+  /** The memories deleted because they expired. */
+  expired: {
+    scope: MemoryScope;
+    kind: string;
+    key: string;
+    value: Record<string, any>;
+  }[];
+  /** The number of clusters of similar memories found. */
+  clusters: number;
+  changes: ConsolidationChange[];
+  /** Clusters that could not be merged, and why. */
+  errors: {
+    scope: MemoryScope;
+    kind: string;
+    keys: string[];
+    error: string;
+  }[];
+}
+
+/**
+ * Memory consolidation graph state.
+ */
+export const ConsolidationAnnotation = Annotation.Root({
+  /**
+   * When the run started, as an ISO timestamp.
+   */
+  startedAt: Annotation<string>,
+  /**
+   * The expired memories that were deleted.
+   */
+  expired: Annotation<ConsolidationReport["expired"]>,
+  /**
+   * The clusters of similar memories found for the user.
+   */
+  clusters: Annotation<MemoryCluster[]>,
+  /**
+   * The merges carried out so far.
+   */
+  changes: Annotation<ConsolidationChange[]>({
+    reducer: (existing, update) => existing.concat(update),
+    default: () => [],
+  }),
+  /**
+   * Clusters that could not be merged.
+   */
+  errors: Annotation<ConsolidationReport["errors"]>({
+    reducer: (existing, update) => existing.concat(update),
+    default: () => [],
+  }),
+  /**
+   * The final change report.
+   */
+  report: Annotation<ConsolidationReport | undefined>,
+});
+
+/**
+ * One memory in an export file, with its timestamps.
+ */
+export interface ExportedMemory {
+  /** Empty or omitted for memories saved before memory kinds existed. */
+  kind?: string;
+  key: string;
+  value: Record<string, any>;
+}
+
+/**
+ * A user's memories as written by an export and read by an import.
+ */
+export interface MemoryExport {
+  /** The export format version, see `MEMORY_EXPORT_VERSION`. */
+  version: number;
+  userId: string;
+  exportedAt: string;
+  memories: ExportedMemory[];
+}
+
+/**
+ * The outcome of an erase request. Without a valid confirmation token, an
+ * erase only issues one.
+ */
+export interface EraseResult {
+  status: "confirmation_required" | "erased";
+  /** The token to pass back to confirm the erase. */
+  confirmationToken?: string;
+  /** When the confirmation token stops being accepted. */
+  expiresAt?: string;
+  /** The number of memories that were, or would be, erased. */
+  memories: number;
+}
+
+/**
+ * A record of one export, import or erase, kept under
+ * `["memory_audit", userId]`. It holds counts, never memory contents, so it
+ * can outlive an erase.
+ */
+export interface AuditRecord {
+  operation: "export" | "import" | "erase";
+  userId: string;
+  at: string;
+  /** The run that carried out the operation, if known. */
+  runId?: string;
+  status: "succeeded" | "failed" | "confirmation_required";
+  details: Record<string, any>;
+  error?: string;
+}
+
+/**
+ * Memory portability graph state.
+ */
+export const PortabilityAnnotation = Annotation.Root({
+  /**
+   * What to do with the user's memories.
+   */
+  operation: Annotation<AuditRecord["operation"]>,
+  /**
+   * The export file to import.
+   */
+  file: Annotation<MemoryExport | undefined>,
+  /**
+   * How to import: `merge` keeps existing memories and overwrites those with
+   * the same key; `replace` erases all existing memories first.
+   */
+  mode: Annotation<"merge" | "replace">({
+    reducer: (_existing, update) => update,
+    default: () => "merge",
+  }),
+  /**
+   * The token returned by an unconfirmed erase, to confirm it.
+   */
+  confirmationToken: Annotation<string | undefined>,
+  /**
+   * The export file, for an export.
+   */
+  export: Annotation<MemoryExport | undefined>,
+  /**
+   * The outcome of an import.
+   */
+  imported: Annotation<{ memories: number; removed: number } | undefined>,
+  /**
+   * The outcome of an erase.
+   */
+  erase: Annotation<EraseResult | undefined>,
+  /**
+   * The audit record for the operation.
+   */
+  audit: Annotation<AuditRecord | undefined>,
 });
@@ -1,7 +1,32 @@
 import { describe, it, expect } from "@jest/globals";
-import { MemorySaver, InMemoryStore } from "@langchain/langgraph";
+import { InMemoryStore, MemorySaver } from "@langchain/langgraph";
+import fs from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import { makeTextEmbeddings } from "../../../shared/embeddings.js";
+import { ensureConfiguration } from "../../configuration.js";
 import { builder } from "../../graph.js";
 
+/**
+ * Create an in-memory store indexed like the deployed store, by the `store`
+ * entry in langgraph.json, so memories are searched the same way.
+ */
+function createMemoryStore(): InMemoryStore {
+  const { store } = JSON.parse(
+    fs.readFileSync(
+      new URL("../../../../../../langgraph.json", import.meta.url),
+      "utf-8",
+    ),
+  );
+  return new InMemoryStore({
+    index: {
+      dims: store.index.dims,
+      // langgraph.json names models as provider:model.
+      embeddings: makeTextEmbeddings(store.index.embed.replace(":", "/")),
+    },
+  });
+}
+
 describe("Memory Graph", () => {
   const conversations = [
     ["My name is Alice and I love pizza. Remember this."],
@@ -27,28 +52,50 @@ describe("Memory Graph", () => {
   )(
     "should store memories for %s conversation",
     async (_, conversation) => {
-      const memStore = new InMemoryStore();
+      const memStore = createMemoryStore();
       const graph = builder.compile({
         store: memStore,
         checkpointer: new MemorySaver(),
       });
       const userId = "test-user";
-      for (const content of conversation) {
-        await graph.invoke(
-          {
-            messages: [
-              { role: "user", content: [{ type: "text", text: content }] },
-            ],
-          },
-          {
-            configurable: {
-              userId,
-              thread_id: "thread",
-              model: "gpt-4o-mini",
-              systemPrompt: "You are a helpful assistant.",
+      // No LangGraph server runs the scheduled extraction here, so the chat
+      // graph falls back to extracting in the run.
+      const server = http.createServer((_req, res) => {
+        res.statusCode = 404;
+        res.end();
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      const previous = process.env.LANGGRAPH_API_URL;
+      process.env.LANGGRAPH_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      try {
+        for (const content of conversation as string[]) {
+          await graph.invoke(
+            {
+              messages: [
+                { role: "user", content: [{ type: "text", text: content }] },
+              ],
+            },
+            {
+              configurable: {
+                ...ensureConfiguration({
+                  configurable: {
+                    userId,
+                    model: "gpt-4o-mini",
+                    systemPrompt: "You are a helpful assistant.",
+                  },
+                }),
+                thread_id: "thread",
+              },
             },
-          },
-        );
+          );
+        }
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+        if (previous === undefined) {
+          delete process.env.LANGGRAPH_API_URL;
+        } else {
+          process.env.LANGGRAPH_API_URL = previous;
+        }
       }
 
       const namespace = ["memories", userId];
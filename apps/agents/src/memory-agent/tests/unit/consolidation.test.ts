@@ -0,0 +1,67 @@
+import { describe, it, expect } from "@jest/globals";
+import { FakeEmbeddings } from "@langchain/core/utils/testing";
+import { InMemoryStore } from "@langchain/langgraph";
+import { startFakeOpenAI } from "../../../shared/tests/fake-openai.js";
+import { ensureConfiguration } from "../../configuration.js";
+import { graph } from "../../consolidation.js";
+import { getMemoryMetadata, MAX_MEMORY_SOURCES } from "../../lifecycle.js";
+
+const sourcesFrom = (threadId: string) =>
+  Array.from({ length: 6 }, (_, i) => ({
+    thread_id: threadId,
+    message_ids: [`${threadId}-m${i}`],
+  }));
+
+describe("Memory consolidation", () => {
+  it("keeps the newest sources of the memories it merges", async () => {
+    // Every memory embeds the same, so they all form one cluster.
+    const store = new InMemoryStore({
+      index: { dims: 4, embeddings: new FakeEmbeddings() },
+    });
+    const namespace = ["memories", "user", "facts"];
+    // The newer memory is listed first.
+    await store.put(namespace, "new", {
+      content: "Lives in Lyon",
+      created_at: "2026-03-01T00:00:00Z",
+      updated_at: "2026-03-01T00:00:00Z",
+      sources: sourcesFrom("new"),
+    });
+    await store.put(namespace, "old", {
+      content: "Lives in Paris",
+      created_at: "2026-01-01T00:00:00Z",
+      updated_at: "2026-01-01T00:00:00Z",
+      sources: sourcesFrom("old"),
+    });
+    const fake = await startFakeOpenAI(() => ({
+      toolCalls: [
+        {
+          name: "consolidate_memories",
+          args: {
+            memories: [{ content: "Lives in Lyon, moved from Paris" }],
+            summary: "Merged the moves.",
+          },
+        },
+      ],
+    }));
+
+    try {
+      await graph.invoke(
+        {},
+        {
+          store,
+          configurable: ensureConfiguration({
+            configurable: { userId: "user", model: "openai/gpt-4o-mini" },
+          }),
+        },
+      );
+    } finally {
+      await fake.close();
+    }
+
+    const [merged] = await store.search(namespace);
+    const sources = getMemoryMetadata(merged).sources ?? [];
+    expect(sources).toHaveLength(MAX_MEMORY_SOURCES);
+    expect(sources.slice(-6)).toEqual(sourcesFrom("new"));
+    expect(getMemoryMetadata(merged).created_at).toBe("2026-01-01T00:00:00Z");
+  });
+});
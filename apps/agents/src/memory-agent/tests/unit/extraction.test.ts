@@ -0,0 +1,250 @@
+import { describe, it, expect } from "@jest/globals";
+import { HumanMessage } from "@langchain/core/messages";
+import { Command, InMemoryStore, MemorySaver } from "@langchain/langgraph";
+import { HumanResponse } from "@langchain/langgraph/prebuilt";
+import { Client } from "@langchain/langgraph-sdk";
+import { ensureConfiguration } from "../../configuration.js";
+import {
+  builder,
+  getExtractionThreadId,
+  graph,
+  scheduleMemoryExtraction,
+} from "../../extraction.js";
+import {
+  FakeReply,
+  startFakeOpenAI,
+} from "../../../shared/tests/fake-openai.js";
+
+const configurable = {
+  userId: "user-1",
+  model: "openai/gpt-4o-mini",
+};
+
+describe("scheduleMemoryExtraction", () => {
+  it("schedules a delayed run that replaces the one still waiting", async () => {
+    const calls: unknown[][] = [];
+    const client = {
+      runs: { create: async (...args: unknown[]) => calls.push(args) },
+    } as unknown as Client;
+    const configuration = ensureConfiguration({ configurable });
+    const messages = [new HumanMessage({ id: "m1", content: "I'm Ana." })];
+
+    await scheduleMemoryExtraction(
+      client,
+      "thread-1",
+      messages,
+      configuration,
+      "run-1",
+    );
+
+    expect(calls).toEqual([
+      [
+        getExtractionThreadId("user-1", "thread-1"),
+        "memory_extraction",
+        {
+          input: {
+            messages,
+            threadId: "thread-1",
+            runId: "run-1",
+            steps: "delete",
+          },
+          config: { configurable: configuration },
+          multitaskStrategy: "rollback",
+          ifNotExists: "create",
+          afterSeconds: 10,
+        },
+      ],
+    ]);
+  });
+
+  it("gives each user's chat thread its own extraction thread", () => {
+    const id = getExtractionThreadId("user-1", "thread-1");
+    expect(getExtractionThreadId("user-1", "thread-1")).toBe(id);
+    expect(getExtractionThreadId("user-1", "thread-2")).not.toBe(id);
+    expect(getExtractionThreadId("user-2", "thread-1")).not.toBe(id);
+  });
+});
+
+describe("extraction graph", () => {
+  it("stops after maxExtractionSteps rounds of tool calls", async () => {
+    let count = 0;
+    const fake = await startFakeOpenAI(() => ({
+      toolCalls: [{ name: "saveFacts", args: { content: `Fact ${++count}` } }],
+    }));
+    try {
+      const store = new InMemoryStore();
+      const result = await graph.invoke(
+        { messages: [new HumanMessage("I have a cat and a dog.")] },
+        {
+          store,
+          configurable: ensureConfiguration({
+            configurable: { ...configurable, maxExtractionSteps: 2 },
+          }),
+        },
+      );
+
+      expect(fake.requests).toHaveLength(2);
+      expect(result.steps.map((step) => step._getType())).toEqual([
+        "ai",
+        "tool",
+        "ai",
+        "tool",
+      ]);
+      const facts = await store.search(["memories", "user-1", "facts"]);
+      expect(facts.map((item) => item.value.content).sort()).toEqual([
+        "Fact 1",
+        "Fact 2",
+      ]);
+    } finally {
+      await fake.close();
+    }
+  });
+});
+
+describe("memory approval", () => {
+  const factsNamespace = ["memories", "user-1", "facts"];
+
+  /**
+   * Run extraction with memoryApproval until it stops for review. The model
+   * makes the given tool calls, then stops once it sees their results.
+   */
+  async function startReview(
+    toolCalls: NonNullable<FakeReply["toolCalls"]>,
+    store = new InMemoryStore(),
+  ) {
+    const fake = await startFakeOpenAI((body) =>
+      body.messages.some((message: { role: string }) => message.role === "tool")
+        ? { content: "Done." }
+        : { toolCalls },
+    );
+    const reviewGraph = builder.compile({ checkpointer: new MemorySaver() });
+    const config = {
+      store,
+      configurable: {
+        ...ensureConfiguration({
+          configurable: { ...configurable, memoryApproval: true },
+        }),
+        thread_id: "thread-1",
+      },
+    };
+    await reviewGraph.invoke(
+      { messages: [new HumanMessage("I have a cat.")] },
+      config,
+    );
+    const resume = async (response: HumanResponse) => {
+      await reviewGraph.invoke(new Command({ resume: [response] }), config);
+      return reviewGraph.getState(config);
+    };
+    const facts = async () =>
+      (await store.search(factsNamespace)).map((item) => item.value.content);
+    return { fake, resume, facts, state: await reviewGraph.getState(config) };
+  }
+
+  const saveCat = { name: "saveFacts", args: { content: "Has a cat" } };
+
+  it("waits for review before saving, and saves when accepted", async () => {
+    const review = await startReview([saveCat]);
+    try {
+      const [interrupt] = review.state.tasks[0].interrupts;
+      expect(interrupt.value).toMatchObject([
+        { action_request: { action: "saveFacts", args: saveCat.args } },
+      ]);
+      expect(await review.facts()).toEqual([]);
+
+      const state = await review.resume({ type: "accept", args: null });
+      expect(state.next).toEqual([]);
+      expect(await review.facts()).toEqual(["Has a cat"]);
+    } finally {
+      await review.fake.close();
+    }
+  });
+
+  it("saves the edited memory", async () => {
+    const review = await startReview([saveCat]);
+    try {
+      await review.resume({
+        type: "edit",
+        args: { action: "saveFacts", args: { content: "Has two cats" } },
+      });
+      expect(await review.facts()).toEqual(["Has two cats"]);
+    } finally {
+      await review.fake.close();
+    }
+  });
+
+  it("tells the model what the user said instead of saving", async () => {
+    const review = await startReview([saveCat]);
+    try {
+      const state = await review.resume({
+        type: "response",
+        args: "It's my sister's cat.",
+      });
+      expect(await review.facts()).toEqual([]);
+      const result = state.values.steps[1];
+      expect(result.content).toContain("It's my sister's cat.");
+      expect(review.fake.requests).toHaveLength(2);
+    } finally {
+      await review.fake.close();
+    }
+  });
+
+  it("discards an ignored memory", async () => {
+    const review = await startReview([saveCat]);
+    try {
+      const state = await review.resume({ type: "ignore", args: null });
+      expect(await review.facts()).toEqual([]);
+      expect(state.values.steps[1].content).toContain("rejected");
+    } finally {
+      await review.fake.close();
+    }
+  });
+
+  it("reviews every save in a step before running any", async () => {
+    const review = await startReview([
+      saveCat,
+      { name: "saveFacts", args: { content: "Has a dog" } },
+    ]);
+    try {
+      let state = await review.resume({ type: "accept", args: null });
+      const [interrupt] = state.tasks[0].interrupts;
+      expect(interrupt.value).toMatchObject([
+        { action_request: { args: { content: "Has a dog" } } },
+      ]);
+      expect(await review.facts()).toEqual([]);
+
+      state = await review.resume({ type: "ignore", args: null });
+      expect(state.next).toEqual([]);
+      expect(await review.facts()).toEqual(["Has a cat"]);
+    } finally {
+      await review.fake.close();
+    }
+  });
+
+  it("waits for review before deleting", async () => {
+    const store = new InMemoryStore();
+    await store.put(factsNamespace, "cat", { content: "Has a cat" });
+    const forget = {
+      name: "deleteMemory",
+      args: { kind: "facts", memoryId: "cat" },
+    };
+
+    const ignored = await startReview([forget], store);
+    try {
+      expect(ignored.state.tasks[0].interrupts[0].value).toMatchObject([
+        { action_request: { action: "deleteMemory" } },
+      ]);
+      await ignored.resume({ type: "ignore", args: null });
+      expect(await ignored.facts()).toEqual(["Has a cat"]);
+    } finally {
+      await ignored.fake.close();
+    }
+
+    const accepted = await startReview([forget], store);
+    try {
+      await accepted.resume({ type: "accept", args: null });
+      expect(await accepted.facts()).toEqual([]);
+    } finally {
+      await accepted.fake.close();
+    }
+  });
+});
@@ -1,5 +1,11 @@
 import { describe, it, expect } from "@jest/globals";
-import { graph } from "../../graph.js";
+import { HumanMessage } from "@langchain/core/messages";
+import http from "http";
+import { AddressInfo } from "net";
+import { Command, InMemoryStore, MemorySaver } from "@langchain/langgraph";
+import { ensureConfiguration } from "../../configuration.js";
+import { builder, graph } from "../../graph.js";
+import { startFakeOpenAI } from "../../../shared/tests/fake-openai.js";
 
 describe("Memory Graph", () => {
   it("should initialize and compile the graph", () => {
@@ -7,5 +13,109 @@ describe("Memory Graph", () => {
     expect(graph.name).toBe("MemoryAgent");
   });
 
-  // TODO: Add more test cases for individual nodes, routing logic, tool integration, and output validation
+  it("resumes the extraction it runs inline for memory approval", async () => {
+    // The chat model is called without tools; the extractor saves one fact,
+    // then stops once it sees the result.
+    const fake = await startFakeOpenAI((body) => {
+      if (!body.tools) {
+        return { content: "Nice to meet you, Ana!" };
+      }
+      return body.messages.some(
+        (message: { role: string }) => message.role === "tool",
+      )
+        ? { content: "Done." }
+        : { toolCalls: [{ name: "saveFacts", args: { content: "Is Ana" } }] };
+    });
+    try {
+      const store = new InMemoryStore();
+      const chatGraph = builder.compile({ checkpointer: new MemorySaver() });
+      const config = {
+        store,
+        configurable: {
+          ...ensureConfiguration({
+            configurable: {
+              userId: "user-1",
+              model: "openai/gpt-4o-mini",
+              memoryApproval: true,
+            },
+          }),
+          thread_id: "thread-1",
+        },
+      };
+
+      await chatGraph.invoke(
+        { messages: [new HumanMessage({ id: "m1", content: "I'm Ana." })] },
+        config,
+      );
+      let state = await chatGraph.getState(config);
+      expect(state.next).toEqual(["extract_memories"]);
+      expect(state.tasks[0].interrupts[0].value).toMatchObject([
+        { action_request: { action: "saveFacts" } },
+      ]);
+      expect(await store.search(["memories", "user-1", "facts"])).toEqual([]);
+
+      await chatGraph.invoke(
+        new Command({ resume: [{ type: "accept", args: null }] }),
+        config,
+      );
+      state = await chatGraph.getState(config);
+      expect(state.next).toEqual([]);
+      const [fact] = await store.search(["memories", "user-1", "facts"]);
+      expect(fact.value).toMatchObject({
+        content: "Is Ana",
+        sources: [{ thread_id: "thread-1", message_ids: ["m1"] }],
+      });
+      // The reply is not asked for again on resume.
+      expect(fake.requests.filter((body) => !body.tools)).toHaveLength(1);
+    } finally {
+      await fake.close();
+    }
+  });
+
+  it("extracts memories in the run when scheduling fails", async () => {
+    // A LangGraph server without the extraction assistant.
+    const server = http.createServer((_req, res) => {
+      res.statusCode = 404;
+      res.end(JSON.stringify({ detail: "Assistant not found" }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const previous = process.env.LANGGRAPH_API_URL;
+    process.env.LANGGRAPH_API_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const fake = await startFakeOpenAI((body) => {
+      if (!body.tools) {
+        return { content: "Nice to meet you, Ana!" };
+      }
+      return body.messages.some(
+        (message: { role: string }) => message.role === "tool",
+      )
+        ? { content: "Done." }
+        : { toolCalls: [{ name: "saveFacts", args: { content: "Is Ana" } }] };
+    });
+    try {
+      const store = new InMemoryStore();
+      const result = await graph.invoke(
+        { messages: [new HumanMessage({ id: "m1", content: "I'm Ana." })] },
+        {
+          store,
+          configurable: {
+            ...ensureConfiguration({
+              configurable: { userId: "user-1", model: "openai/gpt-4o-mini" },
+            }),
+            thread_id: "thread-1",
+          },
+        },
+      );
+      expect(result.messages.at(-1)?.content).toBe("Nice to meet you, Ana!");
+      const [fact] = await store.search(["memories", "user-1", "facts"]);
+      expect(fact.value).toMatchObject({ content: "Is Ana" });
+    } finally {
+      await fake.close();
+      await new Promise((resolve) => server.close(resolve));
+      if (previous === undefined) {
+        delete process.env.LANGGRAPH_API_URL;
+      } else {
+        process.env.LANGGRAPH_API_URL = previous;
+      }
+    }
+  });
 });
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  applyMergePatch,
+  DEFAULT_MEMORY_KINDS,
+  getPatchSchema,
+  validateMemory,
+} from "../../kinds.js";
+
+const [profile, facts] = DEFAULT_MEMORY_KINDS;
+
+describe("applyMergePatch", () => {
+  it("merges objects, replaces values and removes nulls", () => {
+    const result = applyMergePatch(
+      { name: "Ann", role: "student", preferences: { food: "pizza" } },
+      { role: "engineer", name: null, preferences: { music: "jazz" } },
+    );
+    expect(result).toEqual({
+      role: "engineer",
+      preferences: { food: "pizza", music: "jazz" },
+    });
+  });
+});
+
+describe("validateMemory", () => {
+  it("accepts values that match the kind's schema", () => {
+    expect(validateMemory(profile, { name: "Ann" })).toEqual([]);
+    expect(validateMemory(facts, { content: "Plays tennis" })).toEqual([]);
+  });
+
+  it("reports values that do not match", () => {
+    expect(validateMemory(profile, { name: 42 }).length).toBeGreaterThan(0);
+    expect(validateMemory(facts, { context: "No content" }).length).toBe(1);
+  });
+});
+
+describe("getPatchSchema", () => {
+  it("makes every field optional and nullable", () => {
+    const schema = getPatchSchema(facts);
+    expect(schema.required).toBeUndefined();
+    expect(schema.properties.content.anyOf).toContainEqual({ type: "null" });
+  });
+});
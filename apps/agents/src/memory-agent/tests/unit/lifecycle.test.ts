@@ -0,0 +1,152 @@
+import { describe, it, expect } from "@jest/globals";
+import { InMemoryStore, Item } from "@langchain/langgraph";
+import {
+  getMemoryData,
+  getMemoryMetadata,
+  isExpired,
+  markRecalled,
+  rankMemories,
+} from "../../lifecycle.js";
+
+const now = new Date("2026-03-01T00:00:00Z");
+
+function makeItem(
+  key: string,
+  value: Record<string, any>,
+  score?: number,
+): Item & { score?: number } {
+  return {
+    namespace: ["memories", "user", "facts"],
+    key,
+    value,
+    createdAt: now,
+    updatedAt: now,
+    score,
+  };
+}
+
+describe("getMemoryData", () => {
+  it("strips the timestamps from a memory", () => {
+    expect(
+      getMemoryData({
+        content: "Plays tennis",
+        created_at: "2026-01-01T00:00:00Z",
+        updated_at: "2026-01-01T00:00:00Z",
+        last_recalled_at: "2026-02-01T00:00:00Z",
+      }),
+    ).toEqual({ content: "Plays tennis" });
+  });
+});
+
+describe("getMemoryMetadata", () => {
+  it("falls back to the store's times for older memories", () => {
+    const metadata = getMemoryMetadata(makeItem("a", { content: "x" }));
+    expect(metadata.created_at).toBe(now.toISOString());
+    expect(metadata.updated_at).toBe(now.toISOString());
+    expect(metadata.expires_at).toBeUndefined();
+  });
+});
+
+describe("isExpired", () => {
+  it("expires memories once their expiry time passes", () => {
+    const item = makeItem("a", {
+      content: "Is job hunting",
+      expires_at: "2026-02-01T00:00:00Z",
+    });
+    expect(isExpired(item, now)).toBe(true);
+    expect(isExpired(item, new Date("2026-01-01T00:00:00Z"))).toBe(false);
+    expect(isExpired(makeItem("b", { content: "Plays tennis" }), now)).toBe(
+      false,
+    );
+  });
+});
+
+describe("rankMemories", () => {
+  const stale = makeItem(
+    "stale",
+    { content: "Lives in Paris", updated_at: "2025-03-01T00:00:00Z" },
+    0.8,
+  );
+  const fresh = makeItem(
+    "fresh",
+    { content: "Lives in Lyon", updated_at: "2026-02-28T00:00:00Z" },
+    0.75,
+  );
+
+  it("ranks by relevance alone when recency has no weight", () => {
+    const ranked = rankMemories(
+      [fresh, stale],
+      { recencyWeight: 0, recencyHalfLifeDays: 30 },
+      now,
+    );
+    expect(ranked.map((item) => item.key)).toEqual(["stale", "fresh"]);
+  });
+
+  it("lifts recent memories when recency is weighted", () => {
+    const ranked = rankMemories(
+      [stale, fresh],
+      { recencyWeight: 0.2, recencyHalfLifeDays: 30 },
+      now,
+    );
+    expect(ranked.map((item) => item.key)).toEqual(["fresh", "stale"]);
+  });
+});
+
+describe("markRecalled", () => {
+  it("only records recalls once a day", async () => {
+    const store = new InMemoryStore();
+    const items = [
+      makeItem("new", { content: "a" }),
+      makeItem("today", {
+        content: "b",
+        last_recalled_at: "2026-02-28T12:00:00Z",
+      }),
+      makeItem("yesterday", {
+        content: "c",
+        last_recalled_at: "2026-02-27T12:00:00Z",
+      }),
+    ];
+    for (const item of items) {
+      await store.put(item.namespace, item.key, item.value);
+    }
+    await markRecalled(store, items, now);
+
+    const recalled = await store.search(["memories"]);
+    expect(
+      recalled
+        .filter((item) => item.value.last_recalled_at === now.toISOString())
+        .map((item) => item.key)
+        .sort(),
+    ).toEqual(["new", "yesterday"]);
+  });
+
+  it("keeps changes made since the recall and the update time", async () => {
+    const store = new InMemoryStore();
+    const namespace = ["memories", "user", "facts"];
+    await store.put(namespace, "updated", { content: "old" });
+    await store.put(namespace, "deleted", { content: "gone" });
+    await store.put(namespace, "legacy", { content: "no timestamps" });
+    const items = await store.search(namespace);
+    const legacyUpdatedAt = getMemoryMetadata(
+      items.find((item) => item.key === "legacy")!,
+    ).updated_at;
+    await store.put(namespace, "updated", {
+      content: "new",
+      updated_at: "2026-02-01T00:00:00Z",
+    });
+    await store.delete(namespace, "deleted");
+
+    await markRecalled(store, items, now);
+
+    const updated = await store.get(namespace, "updated");
+    expect(updated?.value).toMatchObject({
+      content: "new",
+      updated_at: "2026-02-01T00:00:00Z",
+      last_recalled_at: now.toISOString(),
+    });
+    expect(await store.get(namespace, "deleted")).toBeNull();
+    const legacy = await store.get(namespace, "legacy");
+    expect(legacy?.value.updated_at).toBe(legacyUpdatedAt);
+    expect(getMemoryMetadata(legacy!).updated_at).toBe(legacyUpdatedAt);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from "@jest/globals";
+import { InMemoryStore } from "@langchain/langgraph";
+import { ensureConfiguration } from "../../configuration.js";
+import { DEFAULT_MEMORY_KINDS } from "../../kinds.js";
+import {
+  graph,
+  MEMORY_EXPORT_VERSION,
+  validateMemoryExport,
+} from "../../portability.js";
+
+const baseFile = {
+  version: MEMORY_EXPORT_VERSION,
+  userId: "user",
+  exportedAt: "2026-03-01T00:00:00Z",
+};
+
+describe("validateMemoryExport", () => {
+  const file = {
+    ...baseFile,
+    memories: [
+      {
+        kind: "profile",
+        key: "profile",
+        value: { name: "Ada", updated_at: "2026-02-01T00:00:00Z" },
+      },
+      { kind: "facts", key: "a", value: { content: "Plays tennis" } },
+    ],
+  };
+
+  it("accepts a valid export", () => {
+    expect(validateMemoryExport(file, DEFAULT_MEMORY_KINDS)).toEqual([]);
+  });
+
+  it("rejects other versions", () => {
+    expect(
+      validateMemoryExport({ ...file, version: 2 }, DEFAULT_MEMORY_KINDS),
+    ).toHaveLength(1);
+  });
+
+  it("reports memories of unknown kinds or invalid data", () => {
+    const errors = validateMemoryExport(
+      {
+        ...file,
+        memories: [
+          { kind: "episodes", key: "a", value: {} },
+          { kind: "facts", key: "b", value: { context: "No content" } },
+        ],
+      },
+      DEFAULT_MEMORY_KINDS,
+    );
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain("episodes");
+    expect(errors[1]).toContain("memories[1]");
+  });
+});
+
+describe("portability graph", () => {
+  const config = (store: InMemoryStore) => ({
+    store,
+    configurable: ensureConfiguration({ configurable: { userId: "user-1" } }),
+  });
+
+  it("exports and imports memories saved before memory kinds", async () => {
+    const store = new InMemoryStore();
+    await store.put(["memories", "user-1"], "old", {
+      content: "Plays tennis",
+      context: "Mentioned on a call",
+    });
+    await store.put(["memories", "user-1", "facts"], "new", {
+      content: "Lives in Lyon",
+    });
+
+    const { export: file } = await graph.invoke(
+      { operation: "export" },
+      config(store),
+    );
+    expect(file!.memories).toContainEqual({
+      key: "old",
+      value: { content: "Plays tennis", context: "Mentioned on a call" },
+    });
+    expect(validateMemoryExport(file, DEFAULT_MEMORY_KINDS)).toEqual([]);
+
+    const target = new InMemoryStore();
+    await graph.invoke(
+      { operation: "import", file, mode: "replace" },
+      config(target),
+    );
+    expect((await target.get(["memories", "user-1"], "old"))?.value).toEqual({
+      content: "Plays tennis",
+      context: "Mentioned on a call",
+    });
+    expect(
+      (await target.get(["memories", "user-1", "facts"], "new"))?.value,
+    ).toEqual({ content: "Lives in Lyon" });
+  });
+
+  it("leaves users whose id starts with the same letters alone", async () => {
+    const store = new InMemoryStore();
+    await store.put(["memories", "user-1", "facts"], "mine", {
+      content: "Lives in Lyon",
+    });
+    await store.put(["memories", "user-10", "facts"], "theirs", {
+      content: "Lives in Oslo",
+    });
+    await store.put(["memory_reports", "user-10"], "report", { created: [] });
+
+    const { export: file } = await graph.invoke(
+      { operation: "export" },
+      config(store),
+    );
+    expect(file!.memories.map((memory) => memory.key)).toEqual(["mine"]);
+
+    const { erase } = await graph.invoke({ operation: "erase" }, config(store));
+    expect(erase!.memories).toBe(1);
+    await graph.invoke(
+      {
+        operation: "erase",
+        confirmationToken: erase!.confirmationToken,
+      },
+      config(store),
+    );
+    expect(await store.get(["memories", "user-1", "facts"], "mine")).toBeNull();
+    expect(
+      await store.get(["memories", "user-10", "facts"], "theirs"),
+    ).not.toBeNull();
+    expect(
+      await store.get(["memory_reports", "user-10"], "report"),
+    ).not.toBeNull();
+  });
+
+  it("accepts memories without a kind from earlier exports", () => {
+    const legacy = {
+      ...baseFile,
+      memories: [
+        { kind: "", key: "old", value: { content: "Plays tennis" } },
+        { kind: "", key: "", value: {} },
+      ],
+    };
+    expect(validateMemoryExport(legacy, DEFAULT_MEMORY_KINDS)).toEqual([
+      "memories[1]: missing key",
+    ]);
+  });
+});
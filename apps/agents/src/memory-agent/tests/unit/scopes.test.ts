@@ -0,0 +1,44 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  formatMemoryLocation,
+  getActiveScopes,
+  getScopeNamespace,
+  getWritableScopes,
+  parseMemoryNamespace,
+} from "../../scopes.js";
+
+describe("scopes", () => {
+  const ids = { userId: "ada", teamId: "search", orgId: "" };
+
+  it("only includes the scopes the user is in", () => {
+    expect(getActiveScopes(ids)).toEqual([
+      { scope: "user", namespace: ["memories", "ada"] },
+      { scope: "team", namespace: ["memories", "team", "search"] },
+    ]);
+    expect(getWritableScopes(ids, ["team", "org"])).toEqual([
+      { scope: "team", namespace: ["memories", "team", "search"] },
+    ]);
+  });
+
+  it("rejects user ids that clash with shared scopes", () => {
+    expect(() =>
+      getScopeNamespace("user", { ...ids, userId: "team" }),
+    ).toThrow();
+  });
+
+  it("reads and labels where a memory is kept", () => {
+    expect(
+      parseMemoryNamespace(["memories", "team", "search", "facts"]),
+    ).toEqual({
+      scope: "team",
+      ownerId: "search",
+      kind: "facts",
+    });
+    expect(formatMemoryLocation(["memories", "ada", "profile"])).toBe(
+      "user profile",
+    );
+    expect(formatMemoryLocation(["memories", "org", "acme", "facts"])).toBe(
+      "org acme facts",
+    );
+  });
+});
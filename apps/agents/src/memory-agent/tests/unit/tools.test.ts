@@ -0,0 +1,51 @@
+import { describe, it, expect } from "@jest/globals";
+import { StructuredToolInterface } from "@langchain/core/tools";
+import { InMemoryStore } from "@langchain/langgraph";
+import { initializeTools } from "../../tools.js";
+
+describe("deleteMemory", () => {
+  it("deletes memories saved before memory kinds when given no kind", async () => {
+    const store = new InMemoryStore();
+    await store.put(["memories", "user-1"], "old", { content: "Plays tennis" });
+    await store.put(["memories", "user-1", "facts"], "new", {
+      content: "Lives in Lyon",
+    });
+    const tools: StructuredToolInterface[] = initializeTools({
+      store,
+      configurable: { userId: "user-1" },
+    });
+    const deleteMemory = tools.find((tool) => tool.name === "deleteMemory")!;
+
+    expect(await deleteMemory.invoke({ memoryId: "new" })).toContain(
+      "not found",
+    );
+    expect(await deleteMemory.invoke({ memoryId: "old" })).toContain(
+      "Deleted memory old",
+    );
+    expect(await store.get(["memories", "user-1"], "old")).toBeNull();
+
+    await deleteMemory.invoke({ kind: "facts", memoryId: "new" });
+    expect(await store.get(["memories", "user-1", "facts"], "new")).toBeNull();
+  });
+});
+
+describe("listMemories", () => {
+  it("only lists the user's own memories", async () => {
+    const store = new InMemoryStore();
+    await store.put(["memories", "user-1", "facts"], "mine", {
+      content: "Lives in Lyon",
+    });
+    await store.put(["memories", "user-10", "facts"], "theirs", {
+      content: "Lives in Oslo",
+    });
+    const tools: StructuredToolInterface[] = initializeTools({
+      store,
+      configurable: { userId: "user-1" },
+    });
+    const listMemories = tools.find((tool) => tool.name === "listMemories")!;
+
+    const listed = await listMemories.invoke({});
+    expect(listed).toContain("[mine]");
+    expect(listed).not.toContain("theirs");
+  });
+});
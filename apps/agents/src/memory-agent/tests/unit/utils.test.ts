@@ -0,0 +1,92 @@
+import { describe, it, expect } from "@jest/globals";
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { InMemoryStore } from "@langchain/langgraph";
+import { ensureConfiguration } from "../../configuration.js";
+import {
+  formatMemories,
+  formatMemory,
+  getLatestUserText,
+  recallMemories,
+} from "../../utils.js";
+
+describe("getLatestUserText", () => {
+  it("reads the text of the last user message", () => {
+    const messages = [
+      new HumanMessage("I like tennis."),
+      new AIMessage("Noted!"),
+      new HumanMessage({
+        content: [{ type: "text", text: "What sport do I play?" }],
+      }),
+      new AIMessage("Let me check."),
+    ];
+    expect(getLatestUserText(messages)).toBe("What sport do I play?");
+    expect(getLatestUserText([])).toBe("");
+  });
+});
+
+describe("formatMemories", () => {
+  it("shows each memory with its relevance score and age", () => {
+    const now = new Date("2026-03-01T12:00:00Z");
+    const formatted = formatMemories([
+      {
+        namespace: ["memories", "user"],
+        key: "a",
+        value: {
+          content: "Plays tennis",
+          created_at: "2026-01-10T08:00:00Z",
+          updated_at: "2026-02-20T08:00:00Z",
+        },
+        createdAt: now,
+        updatedAt: now,
+        score: 0.8123,
+      },
+    ]);
+    expect(formatted).toContain(
+      '[a] (user, relevance: 0.81, updated: 2026-02-20): {"content":"Plays tennis"}',
+    );
+    expect(formatMemories([])).toBe("");
+  });
+});
+
+describe("formatMemory", () => {
+  it("shows where a memory came from when asked", () => {
+    const now = new Date("2026-03-01T12:00:00Z");
+    const memory = {
+      namespace: ["memories", "user", "facts"],
+      key: "a",
+      value: {
+        content: "Plays tennis",
+        updated_at: "2026-02-20T08:00:00Z",
+        sources: [{ thread_id: "t1", run_id: "r1", message_ids: ["m1", "m2"] }],
+      },
+      createdAt: now,
+      updatedAt: now,
+    };
+    expect(formatMemory(memory)).toBe(
+      '[a] (user facts, updated: 2026-02-20): {"content":"Plays tennis"}',
+    );
+    expect(formatMemory(memory, { withSources: true })).toBe(
+      '[a] (user facts, updated: 2026-02-20, from thread t1, run r1, messages m1 m2): {"content":"Plays tennis"}',
+    );
+  });
+});
+
+describe("recallMemories", () => {
+  it("only recalls the scopes the user is in", async () => {
+    const store = new InMemoryStore();
+    await store.put(["memories", "a", "facts"], "mine", { content: "Mine" });
+    await store.put(["memories", "ab", "facts"], "theirs", {
+      content: "Another user's",
+    });
+    await store.put(["memories", "team", "acme", "facts"], "team", {
+      content: "Another team's",
+    });
+
+    const recalled = await recallMemories(
+      store,
+      ensureConfiguration({ configurable: { userId: "a", teamId: "ac" } }),
+      "",
+    );
+    expect(recalled.map((item) => item.key)).toEqual(["mine"]);
+  });
+});
@@ -3,66 +3,481 @@ import { ensureConfiguration } from "./configuration.js";
 import { v4 as uuidv4 } from "uuid";
 import { tool } from "@langchain/core/tools";
 import { z } from "zod";
-import { getStoreFromConfigOrThrow } from "./utils.js";
+import {
+  applyMergePatch,
+  getKindNamespace,
+  getPatchSchema,
+  MemoryKind,
+  validateMemory,
+} from "./kinds.js";
+import { getMemoryData, MemorySource, putMemory } from "./lifecycle.js";
+import {
+  getActiveScopes,
+  getWritableScopes,
+  isInNamespace,
+  MemoryScope,
+} from "./scopes.js";
+import { formatMemory, getStoreFromConfigOrThrow } from "./utils.js";
+
+/**
+ * Convert a kind name such as `profile` or `work_history` to `Profile` or
+ * `WorkHistory`, for use in tool names.
+ */
+function toPascalCase(name: string): string {
+  return name
+    .split(/[^a-zA-Z0-9]+/)
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("");
+}
+
+/**
+ * Get the name of the tool that saves a kind of memory, e.g. `updateProfile`
+ * or `saveFacts`.
+ */
+export function getKindToolName(kind: MemoryKind): string {
+  return `${kind.updateMode === "patch" ? "update" : "save"}${toPascalCase(
+    kind.name,
+  )}`;
+}
+
+/**
+ * The conversation memories are being saved from, recorded as their source.
+ */
+export interface MemoryProvenance {
+  thread_id: string;
+  run_id?: string;
+  /** The ids of the messages the model can cite as a memory's source. */
+  messageIds: string[];
+  /** The ids recorded when the model cites none, e.g. the latest user turn. */
+  defaultMessageIds: string[];
+}
+
+/**
+ * Schema for the source messages a save can cite.
+ */
+const SOURCE_MESSAGE_IDS_SCHEMA = {
+  type: "array",
+  items: { type: "string" },
+  description:
+    "The ids of the conversation messages this information came from.",
+};
 
 /**
  * Initialize tools within a function so that they have access to the current
- * state and config at runtime.
+ * state and config at runtime. Each configured memory kind gets its own tool
+ * to save to it, alongside tools to delete, list and search memories.
+ * @param provenance The conversation saves come from. Memories saved without
+ * one, such as from tests, record no source.
  */
-export function initializeTools(config?: LangGraphRunnableConfig) {
+export function initializeTools(
+  config?: LangGraphRunnableConfig,
+  provenance?: MemoryProvenance,
+) {
+  const configurable = ensureConfiguration(config);
+  const kinds = configurable.memoryKinds;
+  const kindNames = kinds.map((kind) => kind.name) as [string, ...string[]];
+  const scopes = getActiveScopes(configurable);
+  const scopeNames = scopes.map(({ scope }) => scope) as [
+    MemoryScope,
+    ...MemoryScope[],
+  ];
+  const writable = getWritableScopes(configurable, configurable.writableScopes);
+  const writableNames = writable.map(({ scope }) => scope) as [
+    MemoryScope,
+    ...MemoryScope[],
+  ];
+
   /**
-   * Upsert a memory in the database.
-   * @param content The main content of the memory.
-   * @param context Additional context for the memory.
-   * @param memoryId Optional ID to overwrite an existing memory.
-   * @returns A string confirming the memory storage.
+   * Get the store, throwing if the graph was compiled without one.
    */
-  async function upsertMemory(opts: {
-    content: string;
-    context: string;
-    memoryId?: string;
-  }): Promise<string> {
-    const { content, context, memoryId } = opts;
+  function getStore() {
     if (!config || !config.store) {
       throw new Error("Config or store not provided");
     }
+    return getStoreFromConfigOrThrow(config);
+  }
+
+  /**
+   * Get a configured memory kind by name.
+   */
+  function getKind(name: string): MemoryKind {
+    const kind = kinds.find((k) => k.name === name);
+    if (!kind) {
+      throw new Error(
+        `Unknown memory kind "${name}". Configured kinds: ${kindNames.join(", ")}`,
+      );
+    }
+    return kind;
+  }
+
+  /**
+   * Get the namespace of a scope the tools may write to, the first writable
+   * scope by default.
+   */
+  function getWritableNamespace(scope?: string): string[] {
+    const match = scope ? writable.find((w) => w.scope === scope) : writable[0];
+    if (!match) {
+      throw new Error(
+        `Cannot write to the ${scope} scope. Writable scopes: ${writableNames.join(", ") || "none"}`,
+      );
+    }
+    return match.namespace;
+  }
+
+  /**
+   * Get the namespaces to read from: one scope, or all the user is in.
+   */
+  function getReadableNamespaces(scope?: string): string[][] {
+    if (!scope) {
+      return scopes.map(({ namespace }) => namespace);
+    }
+    const match = scopes.find((s) => s.scope === scope);
+    if (!match) {
+      throw new Error(
+        `Not in the ${scope} scope. Scopes: ${scopeNames.join(", ")}`,
+      );
+    }
+    return [match.namespace];
+  }
+
+  /**
+   * Get the source to record for a save, keeping only the cited ids that are
+   * in the conversation.
+   */
+  function getSource(cited: unknown): MemorySource | undefined {
+    if (!provenance) {
+      return undefined;
+    }
+    const messageIds = Array.isArray(cited)
+      ? cited.filter((id) => provenance.messageIds.includes(id))
+      : [];
+    return {
+      thread_id: provenance.thread_id,
+      ...(provenance.run_id && { run_id: provenance.run_id }),
+      message_ids: messageIds.length
+        ? messageIds
+        : provenance.defaultMessageIds,
+    };
+  }
+
+  const scopeSchema = {
+    type: "string",
+    enum: writableNames,
+    description: `Where to save it: user for what is only about this user; \
+team or org for what everyone in it shares, such as conventions or a \
+glossary. Defaults to ${writableNames[0]}.`,
+  };
+
+  /**
+   * Update a single-document memory in place with a JSON merge patch.
+   * The patched document is validated against the kind's schema before it
+   * is stored.
+   */
+  function makePatchTool(kind: MemoryKind) {
+    const patchSchema = getPatchSchema(kind);
+    const schema: Record<string, any> = {
+      ...patchSchema,
+      properties: {
+        ...patchSchema.properties,
+        scope: scopeSchema,
+        sourceMessageIds: SOURCE_MESSAGE_IDS_SCHEMA,
+      },
+    };
+    return tool(
+      async (input): Promise<string> => {
+        const { sourceMessageIds, scope, ...patch } = input as Record<
+          string,
+          any
+        >;
+        const store = getStore();
+        const namespace = getKindNamespace(getWritableNamespace(scope), kind);
+        const existing = await store.get(namespace, kind.name);
+        const data = applyMergePatch(
+          existing ? getMemoryData(existing.value) : {},
+          patch,
+        );
+
+        const errors = validateMemory(kind, data);
+        if (errors.length) {
+          throw new Error(
+            `Invalid ${kind.name}, nothing was stored:\n${errors.join("\n")}`,
+          );
+        }
+        await putMemory(store, namespace, kind.name, data, {
+          existing,
+          source: getSource(sourceMessageIds),
+        });
+
+        return `Updated ${kind.name}: ${JSON.stringify(data)}`;
+      },
+      {
+        name: getKindToolName(kind),
+        description: `${kind.description} Pass only the fields that changed; \
+they are merged into the stored ${kind.name}. Pass null to remove a field.`,
+        schema,
+        verboseParsingErrors: true,
+      },
+    );
+  }
+
+  /**
+   * Append a new item to a collection memory. The item is validated against
+   * the kind's schema before it is stored.
+   */
+  function makeInsertTool(kind: MemoryKind) {
+    const schema: Record<string, any> = {
+      ...kind.schema,
+      properties: {
+        ...kind.schema.properties,
+        ttlDays: {
+          type: "number",
+          description: `Days until this item expires, for facts that will \
+go stale, such as 'is job hunting'.${
+            kind.ttlDays
+              ? ` Defaults to ${kind.ttlDays}.`
+              : " Omit to keep it until deleted."
+          }`,
+        },
+        scope: scopeSchema,
+        sourceMessageIds: SOURCE_MESSAGE_IDS_SCHEMA,
+      },
+    };
+    return tool(
+      async (input): Promise<string> => {
+        const {
+          ttlDays = kind.ttlDays,
+          sourceMessageIds,
+          scope,
+          ...item
+        } = input as Record<string, any>;
+        const store = getStore();
+        const errors = validateMemory(kind, item);
+        if (errors.length) {
+          throw new Error(
+            `Invalid ${kind.name} item, nothing was stored:\n${errors.join("\n")}`,
+          );
+        }
+        const memId = uuidv4();
+        await putMemory(
+          store,
+          getKindNamespace(getWritableNamespace(scope), kind),
+          memId,
+          item,
+          { ttlDays, source: getSource(sourceMessageIds) },
+        );
+
+        return `Stored ${kind.name} memory ${memId}`;
+      },
+      {
+        name: getKindToolName(kind),
+        description: `${kind.description} Items are never changed once \
+saved: to correct one, delete it and save a new one. Can call multiple times \
+in parallel to save multiple items.`,
+        schema,
+        verboseParsingErrors: true,
+      },
+    );
+  }
+
+  // Without a writable scope, memories can only be read.
+  const kindTools = writable.length
+    ? kinds.map((kind) =>
+        kind.updateMode === "patch"
+          ? makePatchTool(kind)
+          : makeInsertTool(kind),
+      )
+    : [];
 
-    const configurable = ensureConfiguration(config);
-    const memId = memoryId || uuidv4();
-    const store = getStoreFromConfigOrThrow(config);
+  /**
+   * Delete a memory from the database.
+   * @param kind The kind of memory to delete, omitted for memories saved
+   * before memory kinds existed.
+   * @param memoryId The ID of the memory to delete.
+   * @param scope The scope the memory is in.
+   * @returns A string confirming the deletion.
+   */
+  async function deleteMemory(opts: {
+    kind?: string;
+    memoryId: string;
+    scope?: string;
+  }): Promise<string> {
+    const { kind, memoryId, scope } = opts;
+    const store = getStore();
+    // Memories saved before memory kinds existed are kept in the scope's own
+    // namespace.
+    const scopeNamespace = getWritableNamespace(scope);
+    const namespace = kind
+      ? getKindNamespace(scopeNamespace, getKind(kind))
+      : scopeNamespace;
 
-    await store.put(["memories", configurable.userId], memId, {
-      content,
-      context,
-    });
+    const existing = await store.get(namespace, memoryId);
+    if (!existing) {
+      return `Memory ${memoryId} not found in ${kind ?? "memories without a kind"}`;
+    }
+    await store.delete(namespace, memoryId);
 
-    return `Stored memory ${memId}`;
+    return `Deleted ${kind ? `${kind} ` : ""}memory ${memoryId}: ${JSON.stringify(existing.value)}`;
   }
 
-  const upsertMemoryTool = tool(upsertMemory, {
-    name: "upsertMemory",
+  const deleteMemoryTool = tool(deleteMemory, {
+    name: "deleteMemory",
     description:
-      "Upsert a memory in the database. If a memory conflicts with an existing one, \
-      update the existing one by passing in the memory_id instead of creating a duplicate. \
-      If the user corrects a memory, update it. Can call multiple times in parallel \
-      if you need to store or update multiple memories.",
+      "Delete a memory from the database. Use this when the user asks you to \
+      forget something, or when a memory is wrong and should not be replaced.",
     schema: z.object({
-      content: z.string().describe(
-        "The main content of the memory. For example: \
-          'User expressed interest in learning about French.'",
-      ),
-      context: z.string().describe(
-        "Additional context for the memory. For example: \
-          'This was mentioned while discussing career options in Europe.'",
-      ),
-      memoryId: z
-        .string()
+      kind: z
+        .enum(kindNames)
+        .optional()
+        .describe(
+          "The kind of memory to delete. Omit it for a memory listed without a kind.",
+        ),
+      memoryId: z.string().describe("The ID of the memory to delete."),
+      scope: z
+        .enum(writableNames)
         .optional()
         .describe(
-          "The memory ID to overwrite. Only provide if updating an existing memory.",
+          `The scope the memory is in. Defaults to ${writableNames[0]}.`,
         ),
     }),
   });
 
-  return [upsertMemoryTool];
+  /**
+   * List the stored memories.
+   * @param kind Only list memories of this kind.
+   * @param scope Only list memories in this scope.
+   * @param limit The maximum number of memories to return.
+   * @param offset The number of memories to skip.
+   * @returns The memories, one per line.
+   */
+  async function listMemories(opts: {
+    kind?: string;
+    scope?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<string> {
+    const { kind, scope, limit = 20, offset = 0 } = opts;
+    const store = getStore();
+    const namespaces = getReadableNamespaces(scope).map((namespace) =>
+      kind ? getKindNamespace(namespace, getKind(kind)) : namespace,
+    );
+
+    // Page through the scopes as one list, user memories first.
+    const memories = (
+      await Promise.all(
+        namespaces.map(async (namespace) =>
+          (await store.search(namespace, { limit: limit + offset })).filter(
+            (item) => isInNamespace(item.namespace, namespace),
+          ),
+        ),
+      )
+    )
+      .flat()
+      .slice(offset, offset + limit);
+    if (!memories.length) {
+      return "No memories stored";
+    }
+
+    return memories
+      .map((memory) => formatMemory(memory, { withSources: true }))
+      .join("\n");
+  }
+
+  const listMemoriesTool = tool(listMemories, {
+    name: "listMemories",
+    description:
+      "List the memories stored about the user and shared with their team \
+      and organization, with their scopes, kinds, IDs and the threads they \
+      came from. Use this to find a memory to delete, or when the user asks \
+      what you remember.",
+    schema: z.object({
+      kind: z
+        .enum(kindNames)
+        .optional()
+        .describe("Only list memories of this kind."),
+      scope: z
+        .enum(scopeNames)
+        .optional()
+        .describe("Only list memories in this scope."),
+      limit: z
+        .number()
+        .optional()
+        .describe("The maximum number of memories to return. Defaults to 20."),
+      offset: z
+        .number()
+        .optional()
+        .describe("The number of memories to skip, for paging."),
+    }),
+  });
+
+  /**
+   * Search the stored memories by meaning.
+   * @param query What to look for.
+   * @param kind Only search memories of this kind.
+   * @param scope Only search memories in this scope.
+   * @param limit The maximum number of memories to return.
+   * @returns The matching memories with their relevance scores, one per line.
+   */
+  async function searchMemories(opts: {
+    query: string;
+    kind?: string;
+    scope?: string;
+    limit?: number;
+  }): Promise<string> {
+    const { query, kind, scope, limit = 10 } = opts;
+    const store = getStore();
+    const namespaces = getReadableNamespaces(scope).map((namespace) =>
+      kind ? getKindNamespace(namespace, getKind(kind)) : namespace,
+    );
+
+    const memories = (
+      await Promise.all(
+        namespaces.map(async (namespace) =>
+          (await store.search(namespace, { query, limit })).filter((item) =>
+            isInNamespace(item.namespace, namespace),
+          ),
+        ),
+      )
+    )
+      .flat()
+      .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+      .slice(0, limit);
+    if (!memories.length) {
+      return `No memories found for "${query}"`;
+    }
+
+    return memories
+      .map((memory) => formatMemory(memory, { withSources: true }))
+      .join("\n");
+  }
+
+  const searchMemoriesTool = tool(searchMemories, {
+    name: "searchMemories",
+    description:
+      "Search the memories stored about the user and shared with their team \
+      and organization by meaning, with their scopes, kinds, IDs and \
+      relevance scores. Use this to find the memory a user wants corrected \
+      or forgotten.",
+    schema: z.object({
+      query: z.string().describe("What to look for, e.g. 'favorite food'."),
+      kind: z
+        .enum(kindNames)
+        .optional()
+        .describe("Only search memories of this kind."),
+      scope: z
+        .enum(scopeNames)
+        .optional()
+        .describe("Only search memories in this scope."),
+      limit: z
+        .number()
+        .optional()
+        .describe("The maximum number of memories to return. Defaults to 10."),
+    }),
+  });
+
+  return [
+    ...kindTools,
+    ...(writable.length ? [deleteMemoryTool] : []),
+    listMemoriesTool,
+    searchMemoriesTool,
+  ];
 }
@@ -1,4 +1,20 @@
-import { BaseStore, LangGraphRunnableConfig } from "@langchain/langgraph";
+import { BaseMessage } from "@langchain/core/messages";
+import { BaseStore, Item, LangGraphRunnableConfig } from "@langchain/langgraph";
+import { Configuration } from "./configuration.js";
+import { getKindNamespace } from "./kinds.js";
+import {
+  getMemoryData,
+  getMemoryMetadata,
+  isExpired,
+  rankMemories,
+} from "./lifecycle.js";
+import {
+  formatMemoryLocation,
+  getActiveScopes,
+  isInNamespace,
+  parseMemoryNamespace,
+} from "./scopes.js";
+
 /**
  * Get the store from the configuration or throw an error.
  */
@@ -30,3 +46,125 @@ export function splitModelAndProvider(fullySpecifiedName: string): {
 
   return { model, provider };
 }
+
+/**
+ * Get the text of the latest user message, used as the memory search query.
+ */
+export function getLatestUserText(messages: BaseMessage[]): string {
+  const lastHuman = [...messages]
+    .reverse()
+    .find((message) => message._getType() === "human");
+  if (!lastHuman) {
+    return "";
+  }
+  if (typeof lastHuman.content === "string") {
+    return lastHuman.content;
+  }
+  return lastHuman.content
+    .map((part) => (part.type === "text" ? part.text : ""))
+    .join("");
+}
+
+/**
+ * Format a memory as `[id] (scope kind, relevance: score, updated: date): data`,
+ * e.g. `[a1] (team acme facts, ...)`.
+ * Memories from a store without an index, or listed without a query, have no
+ * score. With `withSources`, the threads, runs and messages it came from are
+ * added.
+ */
+export function formatMemory(
+  mem: Item & { score?: number },
+  options: { withSources?: boolean } = {},
+): string {
+  const metadata = getMemoryMetadata(mem);
+  const details = [
+    formatMemoryLocation(mem.namespace),
+    ...(mem.score === undefined ? [] : [`relevance: ${mem.score.toFixed(2)}`]),
+    `updated: ${metadata.updated_at.slice(0, 10)}`,
+    ...(options.withSources
+      ? (metadata.sources ?? []).map(
+          (source) =>
+            `from thread ${source.thread_id}${
+              source.run_id ? `, run ${source.run_id}` : ""
+            }, messages ${source.message_ids.join(" ")}`,
+        )
+      : []),
+  ];
+  return `[${mem.key}] (${details.join(", ")}): ${JSON.stringify(
+    getMemoryData(mem.value),
+  )}`;
+}
+
+/**
+ * Format recalled memories for the system prompt, most relevant first.
+ */
+export function formatMemories(memories: (Item & { score?: number })[]) {
+  if (!memories.length) {
+    return "";
+  }
+  const formatted = memories.map((memory) => formatMemory(memory)).join("\n");
+  return `\n<memories>\n${formatted}\n</memories>`;
+}
+
+/**
+ * How many more collection items to search than are shown, so recency can
+ * lift older but still relevant ones.
+ */
+const RECALL_CANDIDATES_FACTOR = 3;
+
+/**
+ * Recall the memories to show the model for a query, from every scope the
+ * user is in. Single-document kinds, such as the profile, are always
+ * included; collection items are searched semantically, kept if they score
+ * at least `minScore` and have not expired, and ranked by a mix of relevance
+ * and recency across scopes.
+ */
+export async function recallMemories(
+  store: BaseStore,
+  configuration: Configuration,
+  query: string,
+): Promise<(Item & { score?: number })[]> {
+  const { memoryKinds, memoryLimit, minScore } = configuration;
+  const now = new Date();
+  const scopes = getActiveScopes(configuration);
+  const documentKinds = memoryKinds.filter(
+    (kind) => kind.updateMode === "patch",
+  );
+  const documents = await Promise.all(
+    scopes.flatMap(({ namespace }) =>
+      documentKinds.map((kind) =>
+        store.get(getKindNamespace(namespace, kind), kind.name),
+      ),
+    ),
+  );
+
+  // Documents are also returned by the search, so fetch that many more.
+  const documentNames = new Set(documentKinds.map((kind) => kind.name));
+  const items = await Promise.all(
+    scopes.map(async ({ namespace }) =>
+      (
+        await store.search(namespace, {
+          ...(query && { query }),
+          limit: memoryLimit * RECALL_CANDIDATES_FACTOR + documentKinds.length,
+        })
+      ).filter((item) => isInNamespace(item.namespace, namespace)),
+    ),
+  );
+  const collectionItems = rankMemories(
+    items
+      .flat()
+      .filter(
+        (item) =>
+          !documentNames.has(parseMemoryNamespace(item.namespace).kind!),
+      )
+      .filter((item) => !isExpired(item, now))
+      .filter((item) => item.score === undefined || item.score >= minScore),
+    configuration,
+    now,
+  ).slice(0, memoryLimit);
+
+  return [
+    ...documents.filter((item): item is Item => item !== null),
+    ...collectionItems,
+  ];
+}
@@ -2,9 +2,41 @@
  * Define the configurable parameters for the agent.
  */
 import { Annotation } from "@langchain/langgraph";
+import { HumanInterruptConfig } from "@langchain/langgraph/prebuilt";
+import { Connection } from "@langchain/mcp-adapters";
+import { ContextStrategy } from "../shared/context.js";
 import { SYSTEM_PROMPT_TEMPLATE } from "./prompts.js";
 import { RunnableConfig } from "@langchain/core/runnables";
 
+/**
+ * The tools an assistant gets when it does not choose its own set. The file
+ * tools are left out: they need the deployment to set `AGENT_FILE_ROOT`.
+ */
+const DEFAULT_ENABLED_TOOLS = ["web_search", "calculator", "date_math"];
+
+/**
+ * Earlier names of built-in tools, mapped to their current names, so
+ * configurations that still use them keep working.
+ */
+const TOOL_ALIASES: Record<string, string> = {
+  tavily_search_results_json: "web_search",
+};
+
+/**
+ * Rename the tools in a per-tool setting from their earlier names. A setting
+ * given under both names keeps the one under the current name.
+ */
+function resolveToolAliases<T>(byTool: Record<string, T>): Record<string, T> {
+  const resolved: Record<string, T> = {};
+  for (const [name, value] of Object.entries(byTool)) {
+    const current = TOOL_ALIASES[name];
+    if (!current || !(current in byTool)) {
+      resolved[current ?? name] = value;
+    }
+  }
+  return resolved;
+}
+
 export const ConfigurationSchema = Annotation.Root({
   /**
    * The system prompt to be used by the agent.
@@ -12,9 +44,121 @@ export const ConfigurationSchema = Annotation.Root({
   systemPromptTemplate: Annotation<string>,
 
   /**
-   * The name of the language model to be used by the agent.
+   * The name of the language model to be used by the agent, or an ordered
+   * list of models to fail over between on rate limits and provider errors.
+   */
+  model: Annotation<string | string[]>,
+
+  /**
+   * Tools that require human approval before they run, keyed by tool name.
+   * Each value selects which reviewer responses are allowed; omitted options
+   * default to allowed. Tools not listed here run without review.
+   */
+  toolApprovals: Annotation<Record<string, Partial<HumanInterruptConfig>>>,
+
+  /**
+   * Names of the tools the agent may call. Only these are bound to the model.
+   * `tavily_search_results_json`, the earlier name of `web_search`, is still
+   * accepted here and in the other per-tool settings.
+   */
+  enabledTools: Annotation<string[]>,
+
+  /**
+   * The backend used by the `web_search` tool.
+   * Options are 'tavily', 'searxng' (a self-hosted SearXNG-compatible JSON
+   * endpoint at SEARXNG_URL), or 'fixture' (canned results for tests).
+   */
+  searchProvider: Annotation<"tavily" | "searxng" | "fixture">,
+
+  /**
+   * The maximum number of search results returned to the model.
+   */
+  maxResults: Annotation<number>,
+
+  /**
+   * If set, only results from these domains (or their subdomains) are kept.
+   */
+  includeDomains: Annotation<string[]>,
+
+  /**
+   * Results from these domains (or their subdomains) are dropped.
+   */
+  excludeDomains: Annotation<string[]>,
+
+  /**
+   * MCP servers whose tools are bound alongside the built-in tools and those
+   * of the deployment's `MCP_SERVERS`, keyed by server name. Each entry is a
+   * local HTTP/SSE URL (`{ "url": "http://localhost:8000/mcp" }`); stdio
+   * commands can only be set in `MCP_SERVERS`.
+   */
+  mcpServers: Annotation<Record<string, Connection>>,
+
+  /**
+   * The maximum number of tool-calling rounds per user message. When it runs
+   * out, or the run's recursion limit would be reached first, the agent
+   * answers without tools instead of failing with a recursion error.
+   */
+  maxToolIterations: Annotation<number>,
+
+  /**
+   * How long a tool call may run before it fails, in milliseconds.
+   */
+  toolTimeoutMs: Annotation<number>,
+
+  /**
+   * Per-tool timeouts in milliseconds, keyed by tool name. Overrides
+   * `toolTimeoutMs`.
+   */
+  toolTimeouts: Annotation<Record<string, number>>,
+
+  /**
+   * How many times a tool call is retried after a transient error, such as a
+   * timeout, a dropped connection or a rate limit. Only idempotent tools are
+   * retried, and after a timeout only those that stop when aborted.
+   */
+  toolMaxRetries: Annotation<number>,
+
+  /**
+   * Tools that are safe to call again after a transient error, such as
+   * read-only MCP tools. The built-in tools declare this themselves.
+   */
+  idempotentTools: Annotation<string[]>,
+
+  /**
+   * The delay before the first retry, in milliseconds. It doubles with each
+   * further retry.
+   */
+  toolRetryDelayMs: Annotation<number>,
+
+  /**
+   * After this many consecutive failures in a thread, a tool is no longer
+   * offered to the model.
+   */
+  toolFailureThreshold: Annotation<number>,
+
+  /**
+   * The token budget for each model call. Longer conversations are shortened
+   * with `contextStrategy`. Zero disables the limit.
+   */
+  maxContextTokens: Annotation<number>,
+
+  /**
+   * How conversations over `maxContextTokens` are shortened: 'trim' drops the
+   * oldest turns, 'summarize' folds them into a running summary.
+   */
+  contextStrategy: Annotation<ContextStrategy>,
+
+  /**
+   * A JSON Schema for the final answer. When set, the agent ends by writing an
+   * object that validates against it to the `structuredResponse` channel.
+   */
+  responseSchema: Annotation<Record<string, any> | null>,
+
+  /**
+   * How many times a final answer that fails `responseSchema` validation is
+   * retried with the validation errors fed back to the model.
    */
-  model: Annotation<string>,
+  responseSchemaRetries: Annotation<number>,
 });
 
 export function ensureConfiguration(
@@ -28,5 +172,29 @@ export function ensureConfiguration(
     systemPromptTemplate:
       configurable.systemPromptTemplate ?? SYSTEM_PROMPT_TEMPLATE,
     model: configurable.model ?? "claude-3-7-sonnet-latest",
+    toolApprovals: resolveToolAliases(configurable.toolApprovals ?? {}),
+    enabledTools: [
+      ...new Set<string>(
+        (configurable.enabledTools ?? DEFAULT_ENABLED_TOOLS).map(
+          (name: string) => TOOL_ALIASES[name] ?? name,
+        ),
+      ),
+    ],
+    searchProvider: configurable.searchProvider ?? "tavily",
+    maxResults: configurable.maxResults ?? 3,
+    includeDomains: configurable.includeDomains ?? [],
+    excludeDomains: configurable.excludeDomains ?? [],
+    mcpServers: configurable.mcpServers ?? {},
+    maxToolIterations: configurable.maxToolIterations ?? 6,
+    toolTimeoutMs: configurable.toolTimeoutMs ?? 30_000,
+    toolTimeouts: resolveToolAliases(configurable.toolTimeouts ?? {}),
+    toolMaxRetries: configurable.toolMaxRetries ?? 2,
+    idempotentTools: configurable.idempotentTools ?? [],
+    toolRetryDelayMs: configurable.toolRetryDelayMs ?? 500,
+    toolFailureThreshold: configurable.toolFailureThreshold ?? 3,
+    maxContextTokens: configurable.maxContextTokens ?? 100_000,
+    contextStrategy: configurable.contextStrategy ?? "summarize",
+    responseSchema: configurable.responseSchema ?? null,
+    responseSchemaRetries: configurable.responseSchemaRetries ?? 2,
   };
 }
@@ -0,0 +1,214 @@
+/**
+ * Resilient tool execution for the ReAct agent: per-tool timeouts, retries with
+ * backoff for transient errors, and structured error results the model can
+ * recover from. Only idempotent tools are retried, and a call that timed out
+ * only if the tool stops when aborted, so a call never runs twice at once.
+ */
+import { isToolMessage, ToolMessage } from "@langchain/core/messages";
+import { ToolCall } from "@langchain/core/messages/tool";
+import { RunnableConfig } from "@langchain/core/runnables";
+import { StructuredToolInterface } from "@langchain/core/tools";
+import { isGraphInterrupt } from "@langchain/langgraph";
+
+import { ensureConfiguration } from "./configuration.js";
+
+type Configuration = ReturnType<typeof ensureConfiguration>;
+
+/**
+ * Raised when a tool call runs longer than its timeout.
+ */
+export class ToolTimeoutError extends Error {
+  constructor(toolName: string, timeoutMs: number) {
+    super(`Tool "${toolName}" timed out after ${timeoutMs}ms`);
+    this.name = "ToolTimeoutError";
+  }
+}
+
+/**
+ * How a tool may be retried, declared in its `metadata`. Tools that declare
+ * nothing are never called twice, unless listed in `idempotentTools`.
+ */
+export interface ToolRetryPolicy {
+  /** Calling it again with the same input does no harm, e.g. it only reads. */
+  idempotent?: boolean;
+  /** It stops when its abort signal fires, so a timed-out call is over. */
+  abortable?: boolean;
+}
+
+/** Error codes of dropped or refused connections and failed DNS lookups. */
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+
+/** HTTP statuses of rate limits and unavailable or overloaded servers. */
+const TRANSIENT_STATUS_CODES = new Set([429, 502, 503, 504]);
+
+/**
+ * Messages of the same failures, for errors that only carry a message: a
+ * connection error code, a rate limit, or one of the statuses above given as
+ * a status, e.g. "status code 503", or leading the message, e.g. "429 Too
+ * Many Requests".
+ */
+const TRANSIENT_ERROR_PATTERN =
+  /\b(?:ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN)\b|socket hang up|^fetch failed$|rate limit|too many requests|\bstatus(?: code)?:? (?:429|502|503|504)\b|^(?:429|502|503|504)\b/i;
+
+/**
+ * Check whether a tool error is likely to succeed when retried: a timeout, a
+ * dropped connection, a rate limit or an unavailable server.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof ToolTimeoutError) {
+    return true;
+  }
+  const { code, status, cause } = (error ?? {}) as Record<string, any>;
+  if (
+    TRANSIENT_ERROR_CODES.has(code) ||
+    TRANSIENT_ERROR_CODES.has(cause?.code) ||
+    TRANSIENT_STATUS_CODES.has(status)
+  ) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return TRANSIENT_ERROR_PATTERN.test(message);
+}
+
+/**
+ * Check whether a failed call may be made again: the error must be
+ * transient and the tool idempotent. A call that timed out may still be
+ * running, so it is only retried if the tool stops when aborted.
+ */
+function canRetry(
+  tool: StructuredToolInterface,
+  error: unknown,
+  configuration: Configuration,
+): boolean {
+  const policy = ((tool as { metadata?: Record<string, unknown> }).metadata ??
+    {}) as ToolRetryPolicy;
+  const idempotent =
+    policy.idempotent || configuration.idempotentTools.includes(tool.name);
+  if (!idempotent || !isTransientError(error)) {
+    return false;
+  }
+  return !(error instanceof ToolTimeoutError) || policy.abortable === true;
+}
+
+/**
+ * Run a promise, rejecting with a `ToolTimeoutError` if it takes too long.
+ */
+async function withTimeout<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  toolName: string,
+  timeoutMs: number,
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new ToolTimeoutError(toolName, timeoutMs);
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+  try {
+    return await Promise.race([run(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Build the `ToolMessage` returned to the model when a tool call fails.
+ * The content is JSON so the model can tell failures apart from results, and
+ * the `error` status lets the UI render it as a failure.
+ */
+export function makeToolErrorMessage(
+  toolCall: ToolCall,
+  error: unknown,
+  attempts: number,
+): ToolMessage {
+  const message = error instanceof Error ? error.message : String(error);
+  return new ToolMessage({
+    name: toolCall.name,
+    tool_call_id: toolCall.id ?? "",
+    status: "error",
+    content: JSON.stringify({
+      error: message,
+      type: error instanceof Error ? error.name : "Error",
+      attempts,
+      retryable: isTransientError(error),
+      hint: "The tool call failed. Fix the arguments, try a different approach, or answer without this tool.",
+    }),
+  });
+}
+
+/**
+ * Execute one tool call with the configured timeout and retry policy, and
+ * the tool's own `ToolRetryPolicy`.
+ * Failures never throw (except interrupts, which must reach the graph); they
+ * are returned as `ToolMessage`s with an `error` status.
+ * @param tool - The tool to call, or undefined if the model named an unknown tool.
+ * @param toolCall - The tool call from the model.
+ * @param configuration - The agent configuration with the execution policy.
+ * @param config - The runnable config passed through to the tool.
+ * @returns The tool's result message.
+ */
+export async function executeToolCall(
+  tool: StructuredToolInterface | undefined,
+  toolCall: ToolCall,
+  configuration: Configuration,
+  config: RunnableConfig,
+): Promise<ToolMessage> {
+  if (!tool) {
+    return makeToolErrorMessage(
+      toolCall,
+      new Error(`Tool "${toolCall.name}" is not available.`),
+      0,
+    );
+  }
+
+  const timeoutMs =
+    configuration.toolTimeouts[toolCall.name] ?? configuration.toolTimeoutMs;
+  const maxAttempts = configuration.toolMaxRetries + 1;
+
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      const output = await withTimeout(
+        (signal) =>
+          tool.invoke(
+            { ...toolCall, type: "tool_call" },
+            {
+              ...config,
+              // Stop on either the tool timeout or the run being cancelled.
+              signal: config.signal
+                ? AbortSignal.any([config.signal, signal])
+                : signal,
+            },
+          ),
+        toolCall.name,
+        timeoutMs,
+      );
+      if (isToolMessage(output)) {
+        return output;
+      }
+      return new ToolMessage({
+        name: tool.name,
+        tool_call_id: toolCall.id ?? "",
+        content: typeof output === "string" ? output : JSON.stringify(output),
+      });
+    } catch (error) {
+      if (isGraphInterrupt(error)) {
+        throw error;
+      }
+      if (attempt >= maxAttempts || !canRetry(tool, error, configuration)) {
+        return makeToolErrorMessage(toolCall, error, attempt);
+      }
+      const delay = configuration.toolRetryDelayMs * 2 ** (attempt - 1);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -1,58 +1,424 @@
-import { AIMessage } from "@langchain/core/messages";
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { ToolCall } from "@langchain/core/messages/tool";
 import { RunnableConfig } from "@langchain/core/runnables";
-import { MessagesAnnotation, StateGraph } from "@langchain/langgraph";
-import { ToolNode } from "@langchain/langgraph/prebuilt";
+import { Validator } from "@langchain/core/utils/json_schema";
+import {
+  Command,
+  END,
+  interrupt,
+  Send,
+  StateGraph,
+} from "@langchain/langgraph";
+import { HumanInterrupt, HumanResponse } from "@langchain/langgraph/prebuilt";
 
+import { prepareContext } from "../shared/context.js";
+import { parseEditedArgs } from "../shared/interrupts.js";
+import { loadChatModel } from "../shared/models.js";
 import { ConfigurationSchema, ensureConfiguration } from "./configuration.js";
-import { TOOLS } from "./tools.js";
-import { loadChatModel } from "./utils.js";
+import { executeToolCall, makeToolErrorMessage } from "./execution.js";
+import {
+  STRUCTURED_RESPONSE_PROMPT,
+  WRAP_UP_FALLBACK,
+  WRAP_UP_PROMPT,
+  WRAP_UP_RETRY_PROMPT,
+} from "./prompts.js";
+import { StateAnnotation } from "./state.js";
+import { getTools } from "./tools.js";
+import { getMessageText } from "./utils.js";
+
+/** Supersteps a tool round takes: review, tools, then the model again. */
+const STEPS_PER_TOOL_ROUND = 3;
+
+/** LangGraph's recursion limit when the run does not set one. */
+const DEFAULT_RECURSION_LIMIT = 25;
 
 // Define the function that calls the model
 async function callModel(
-  state: typeof MessagesAnnotation.State,
+  state: typeof StateAnnotation.State,
   config: RunnableConfig,
-): Promise<typeof MessagesAnnotation.Update> {
+): Promise<typeof StateAnnotation.Update> {
   /** Call the LLM powering our agent. **/
   const configuration = ensureConfiguration(config);
 
+  // Tools that keep failing in this thread are no longer offered.
+  const tools = (await getTools(configuration)).filter(
+    (tool) =>
+      (state.toolFailures[tool.name] ?? 0) < configuration.toolFailureThreshold,
+  );
+
   // Feel free to customize the prompt, model, and other logic!
-  const model = (await loadChatModel(configuration.model)).bindTools(TOOLS);
-
-  const response = await model.invoke([
-    {
-      role: "system",
-      content: configuration.systemPromptTemplate.replace(
-        "{system_time}",
-        new Date().toISOString(),
+  const chatModel = await loadChatModel(configuration.model);
+  const model = chatModel.bindTools(tools);
+
+  // Fit long threads into the context window.
+  const context = await prepareContext({
+    systemPrompt: configuration.systemPromptTemplate.replace(
+      "{system_time}",
+      new Date().toISOString(),
+    ),
+    messages: state.messages,
+    summary: state.summary,
+    modelName: configuration.model,
+    model: chatModel,
+    maxContextTokens: configuration.maxContextTokens,
+    strategy: configuration.contextStrategy,
+  });
+  const response = await model.invoke(context.messages);
+
+  // A new user message starts a fresh tool budget.
+  const isNewTurn =
+    state.messages[state.messages.length - 1]?._getType() === "human";
+
+  // We return a list, because this will get added to the existing list
+  return {
+    messages: [response],
+    ...(isNewTurn && { toolIterations: 0 }),
+    ...(context.summary && { summary: context.summary }),
+  };
+}
+
+// Define the function that ends the loop once the tool budget is spent
+async function wrapUp(
+  state: typeof StateAnnotation.State,
+  config: RunnableConfig,
+): Promise<typeof StateAnnotation.Update> {
+  const configuration = ensureConfiguration(config);
+  const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+
+  // Every tool call needs a result, so answer the ones that will not run.
+  const skipped = (lastMessage.tool_calls ?? []).map(
+    (toolCall) =>
+      new ToolMessage({
+        name: toolCall.name,
+        tool_call_id: toolCall.id ?? "",
+        content: "Not run: the tool call budget for this request is used up.",
+      }),
+  );
+
+  // Tools stay bound because the history contains tool calls, which some
+  // providers only accept alongside tool definitions.
+  const chatModel = await loadChatModel(configuration.model);
+  const model = chatModel.bindTools(await getTools(configuration));
+  const context = await prepareContext({
+    systemPrompt: `${configuration.systemPromptTemplate.replace(
+      "{system_time}",
+      new Date().toISOString(),
+    )}\n\n${WRAP_UP_PROMPT}`,
+    messages: [...state.messages, ...skipped],
+    summary: state.summary,
+    modelName: configuration.model,
+    model: chatModel,
+    maxContextTokens: configuration.maxContextTokens,
+    strategy: configuration.contextStrategy,
+  });
+  let response = await model.invoke(context.messages);
+  // A model that only calls tools anyway is asked once more for text, and
+  // the user gets a fixed answer rather than an empty one if it still will
+  // not write one.
+  if (!getMessageText(response).trim()) {
+    response = await model.invoke([
+      ...context.messages,
+      new HumanMessage(WRAP_UP_RETRY_PROMPT),
+    ]);
+  }
+  const text = getMessageText(response);
+
+  // Drop any tool calls the model makes anyway, keeping only its text.
+  const finalAnswer = new AIMessage({
+    id: response.id,
+    content: text.trim() ? text : WRAP_UP_FALLBACK,
+    response_metadata: response.response_metadata,
+    usage_metadata: response.usage_metadata,
+  });
+
+  return {
+    messages: [...skipped, finalAnswer],
+    ...(context.summary && { summary: context.summary }),
+  };
+}
+
+// Define the function that turns the final answer into a validated object
+async function formatResponse(
+  state: typeof StateAnnotation.State,
+  config: RunnableConfig,
+): Promise<typeof StateAnnotation.Update> {
+  const configuration = ensureConfiguration(config);
+  const schema = configuration.responseSchema;
+  if (!schema) {
+    throw new Error("formatResponse requires a responseSchema");
+  }
+
+  const chatModel = await loadChatModel(configuration.model);
+  // Function calling accepts any JSON Schema, unlike strict JSON schema modes.
+  const model = chatModel.withStructuredOutput(schema, {
+    name: "final_answer",
+    method: "functionCalling",
+    includeRaw: true,
+  });
+  const context = await prepareContext({
+    systemPrompt: `${configuration.systemPromptTemplate.replace(
+      "{system_time}",
+      new Date().toISOString(),
+    )}\n\n${STRUCTURED_RESPONSE_PROMPT}`,
+    messages: state.messages,
+    summary: state.summary,
+    modelName: configuration.model,
+    model: chatModel,
+    maxContextTokens: configuration.maxContextTokens,
+    strategy: configuration.contextStrategy,
+  });
+
+  const validator = new Validator(schema, undefined, false);
+  // Failed attempts and their validation errors, fed back on the next try.
+  const feedback: BaseMessage[] = [];
+  let errors: string[] = [];
+  for (
+    let attempt = 0;
+    attempt <= configuration.responseSchemaRetries;
+    attempt += 1
+  ) {
+    const { raw, parsed } = await model.invoke(
+      [...context.messages, ...feedback],
+      // Only the final object is output, not the tool call that produced it.
+      { tags: ["langsmith:nostream"] },
+    );
+    if (parsed === null || typeof parsed !== "object") {
+      errors = ["The output was not a JSON object."];
+    } else {
+      const result = validator.validate(parsed);
+      if (result.valid) {
+        return {
+          structuredResponse: parsed,
+          ...(context.summary && { summary: context.summary }),
+        };
+      }
+      errors = result.errors.map(
+        (error) => `${error.instanceLocation}: ${error.error}`,
+      );
+    }
+    feedback.push(
+      new AIMessage(
+        parsed === null || parsed === undefined
+          ? getMessageText(raw)
+          : JSON.stringify(parsed),
       ),
+      new HumanMessage(
+        `Your answer did not match the schema:\n${errors
+          .map((error) => `- ${error}`)
+          .join("\n")}\n\nCall \`final_answer\` again with a corrected answer.`,
+      ),
+    );
+  }
+  throw new Error(
+    `The final answer did not match responseSchema after ${
+      configuration.responseSchemaRetries + 1
+    } attempts: ${errors.join("; ")}`,
+  );
+}
+
+// Define the function that pauses for human review of risky tool calls
+async function reviewToolCalls(
+  state: typeof StateAnnotation.State,
+  config: RunnableConfig,
+): Promise<Command> {
+  const configuration = ensureConfiguration(config);
+  const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+
+  const reviewedCalls: ToolCall[] = [];
+  const approvedCalls: ToolCall[] = [];
+  const rejections: ToolMessage[] = [];
+
+  for (const toolCall of lastMessage.tool_calls ?? []) {
+    const policy = configuration.toolApprovals[toolCall.name];
+    if (!policy) {
+      reviewedCalls.push(toolCall);
+      approvedCalls.push(toolCall);
+      continue;
+    }
+
+    const request: HumanInterrupt = {
+      action_request: { action: toolCall.name, args: toolCall.args },
+      config: {
+        allow_accept: true,
+        allow_edit: true,
+        allow_respond: true,
+        allow_ignore: true,
+        ...policy,
+      },
+      description: `The agent wants to call \`${toolCall.name}\`. Accept, edit the arguments, respond with feedback, or ignore the call.`,
+    };
+    // The agent inbox resumes with a list holding one response per request.
+    const [response] = interrupt<HumanInterrupt[], HumanResponse[]>([request]);
+
+    if (response.type === "accept") {
+      reviewedCalls.push(toolCall);
+      approvedCalls.push(toolCall);
+    } else if (response.type === "edit" && typeof response.args === "object") {
+      const editedCall = {
+        ...toolCall,
+        args: parseEditedArgs(toolCall.args, response.args?.args ?? {}),
+      };
+      reviewedCalls.push(editedCall);
+      approvedCalls.push(editedCall);
+    } else {
+      reviewedCalls.push(toolCall);
+      rejections.push(
+        new ToolMessage({
+          name: toolCall.name,
+          tool_call_id: toolCall.id ?? "",
+          content:
+            response.type === "response"
+              ? `The user declined this tool call and responded: ${response.args}`
+              : "The user declined this tool call. Do not retry it unless asked.",
+        }),
+      );
+    }
+  }
+
+  // Replace the AI message in place so its tool calls reflect any edits.
+  const reviewedMessage = new AIMessage({
+    id: lastMessage.id,
+    content: lastMessage.content,
+    additional_kwargs: lastMessage.additional_kwargs,
+    response_metadata: lastMessage.response_metadata,
+    tool_calls: reviewedCalls,
+  });
+
+  return new Command({
+    update: {
+      messages: [reviewedMessage, ...rejections],
+      toolIterations: state.toolIterations + 1,
     },
-    ...state.messages,
-  ]);
+    // Only the approved calls are sent to the tool node.
+    goto: approvedCalls.length
+      ? new Send("tools", {
+          messages: [new AIMessage({ content: "", tool_calls: approvedCalls })],
+          toolFailures: state.toolFailures,
+        })
+      : "callModel",
+  });
+}
 
-  // We return a list, because this will get added to the existing list
-  return { messages: [response] };
+// Define the function that runs the tools enabled for this assistant
+async function callTools(
+  state: typeof StateAnnotation.State,
+  config: RunnableConfig,
+): Promise<typeof StateAnnotation.Update> {
+  const configuration = ensureConfiguration(config);
+  const tools = await getTools(configuration);
+  const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+  const toolCalls = lastMessage.tool_calls ?? [];
+  // A model can still name a tool it is no longer offered, e.g. from earlier
+  // in the thread, so tools that keep failing are not run either.
+  const isTripped = (name: string) =>
+    (state.toolFailures?.[name] ?? 0) >= configuration.toolFailureThreshold;
+
+  const results = await Promise.all(
+    toolCalls.map((toolCall) =>
+      isTripped(toolCall.name)
+        ? makeToolErrorMessage(
+            toolCall,
+            new Error(
+              `Tool "${toolCall.name}" failed ${configuration.toolFailureThreshold} times in a row and is disabled in this thread.`,
+            ),
+            0,
+          )
+        : executeToolCall(
+            tools.find((tool) => tool.name === toolCall.name),
+            toolCall,
+            configuration,
+            config,
+          ),
+    ),
+  );
+
+  // Report each outcome so repeatedly failing tools trip the circuit breaker.
+  const toolFailures = toolCalls.flatMap((toolCall, index) =>
+    isTripped(toolCall.name)
+      ? []
+      : [
+          {
+            name: toolCall.name,
+            outcome:
+              results[index].status === "error"
+                ? ("failure" as const)
+                : ("success" as const),
+          },
+        ],
+  );
+
+  return { messages: results, toolFailures };
+}
+
+/**
+ * Check whether another tool round fits within the run's recursion limit,
+ * leaving the steps to wrap up and structure the answer afterwards, so the
+ * run always ends with an answer instead of a `GraphRecursionError`.
+ */
+function hasStepsForToolRound(
+  state: typeof StateAnnotation.State,
+  config: RunnableConfig,
+): boolean {
+  const configuration = ensureConfiguration(config);
+  // The turn's first model call, then each tool round so far. A resumed run
+  // gets a fresh limit, so this never undercounts.
+  const used = 1 + STEPS_PER_TOOL_ROUND * state.toolIterations;
+  const finish = configuration.responseSchema ? 2 : 1;
+  return (
+    used + STEPS_PER_TOOL_ROUND + finish <=
+    (config.recursionLimit ?? DEFAULT_RECURSION_LIMIT)
+  );
 }
 
 // Define the function that determines whether to continue or not
-function routeModelOutput(state: typeof MessagesAnnotation.State): string {
+function routeModelOutput(
+  state: typeof StateAnnotation.State,
+  config: RunnableConfig,
+): string {
+  const configuration = ensureConfiguration(config);
   const messages = state.messages;
   const lastMessage = messages[messages.length - 1];
-  // If the LLM is invoking tools, route there.
+  // If the LLM is invoking tools, route them through review first, unless the
+  // tool budget or the recursion limit is spent, in which case wrap up instead.
   if ((lastMessage as AIMessage)?.tool_calls?.length || 0 > 0) {
-    return "tools";
+    return state.toolIterations >= configuration.maxToolIterations ||
+      !hasStepsForToolRound(state, config)
+      ? "wrapUp"
+      : "reviewToolCalls";
   }
-  // Otherwise end the graph.
+  // Otherwise end the graph, writing a structured answer first if asked.
   else {
-    return "__end__";
+    return routeFinalAnswer(state, config);
   }
 }
 
-// Define a new graph. We use the prebuilt MessagesAnnotation to define state:
+// Define the function that decides whether the answer needs structuring
+function routeFinalAnswer(
+  _state: typeof StateAnnotation.State,
+  config: RunnableConfig,
+): string {
+  return ensureConfiguration(config).responseSchema
+    ? "formatResponse"
+    : "__end__";
+}
+
+// Define a new graph. The state extends the prebuilt MessagesAnnotation with a
+// tool-call counter, see ./state.ts:
 // https://langchain-ai.github.io/langgraphjs/concepts/low_level/#messagesannotation
-const workflow = new StateGraph(MessagesAnnotation, ConfigurationSchema)
-  // Define the two nodes we will cycle between
+const workflow = new StateGraph(StateAnnotation, ConfigurationSchema)
+  // Define the nodes we will cycle between
   .addNode("callModel", callModel)
-  .addNode("tools", new ToolNode(TOOLS))
+  .addNode("reviewToolCalls", reviewToolCalls, {
+    ends: ["tools", "callModel"],
+  })
+  .addNode("tools", callTools)
+  .addNode("wrapUp", wrapUp)
+  .addNode("formatResponse", formatResponse)
   // Set the entrypoint as `callModel`
   // This means that this node is the first one called
   .addEdge("__start__", "callModel")
@@ -65,10 +431,14 @@ const workflow = new StateGraph(MessagesAnnotation, ConfigurationSchema)
     routeModelOutput,
   )
   // This means that after `tools` is called, `callModel` node is called next.
-  .addEdge("tools", "callModel");
+  .addEdge("tools", "callModel")
+  // The wrap-up answer is always final, apart from structuring it.
+  .addConditionalEdges("wrapUp", routeFinalAnswer)
+  .addEdge("formatResponse", END);
 
 // Finally, we compile it!
 // This compiles it into a graph you can invoke and deploy.
+// Tool calls that need approval pause inside `reviewToolCalls` via `interrupt()`.
 export const graph = workflow.compile({
   interruptBefore: [], // if you want to update the state before calling the tools
   interruptAfter: [],
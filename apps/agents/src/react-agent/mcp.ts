@@ -0,0 +1,206 @@
+/**
+ * Load tools from Model Context Protocol (MCP) servers, so they can be bound
+ * alongside the built-in tools. Servers that run a command (stdio) are only
+ * taken from the deployment, in the `MCP_SERVERS` environment variable; a
+ * run's configuration can only add servers reached by URL, so callers cannot
+ * start processes on the server.
+ */
+import { StructuredToolInterface } from "@langchain/core/tools";
+import { Connection, MultiServerMCPClient } from "@langchain/mcp-adapters";
+
+/** How long a server may go unused before its client is closed. */
+const MAX_IDLE_MS = 10 * 60 * 1000;
+
+/** The most servers kept connected at once; the least recently used go first. */
+const MAX_CACHED_SERVERS = 20;
+
+/**
+ * A connected server and the tools it lists.
+ */
+interface CachedServer {
+  client: MultiServerMCPClient;
+  tools: Promise<StructuredToolInterface[]>;
+  lastUsed: number;
+}
+
+/**
+ * Connected servers, keyed by their name and connection settings. Servers are
+ * started once and reused across runs with the same settings, until they go
+ * unused for `MAX_IDLE_MS` or too many others are connected.
+ */
+const connectedServers = new Map<string, CachedServer>();
+
+/**
+ * Close a server's client and forget it, stopping its process if it has one.
+ */
+async function closeServer(key: string): Promise<void> {
+  const server = connectedServers.get(key);
+  connectedServers.delete(key);
+  await server?.client.close().catch((error) => {
+    console.warn("Failed to close MCP client:", error);
+  });
+}
+
+/**
+ * Close the clients of servers that have gone unused, and of the least
+ * recently used servers past `MAX_CACHED_SERVERS`.
+ */
+async function evictServers(now: number): Promise<void> {
+  const byLastUse = [...connectedServers].sort(
+    ([, a], [, b]) => a.lastUsed - b.lastUsed,
+  );
+  const evicted = byLastUse
+    .filter(
+      ([, server], index) =>
+        now - server.lastUsed > MAX_IDLE_MS ||
+        index < byLastUse.length - MAX_CACHED_SERVERS,
+    )
+    .map(([key]) => key);
+  await Promise.all(evicted.map(closeServer));
+}
+
+/**
+ * Close every MCP client, stopping the servers they started.
+ */
+export async function closeMcpClients(): Promise<void> {
+  await Promise.all([...connectedServers.keys()].map(closeServer));
+}
+
+/**
+ * Connect to one MCP server and list its tools.
+ * A server that fails to start or list its tools contributes no tools; the
+ * failure is logged and retried on the next run instead of failing the graph.
+ */
+async function loadServerTools(
+  serverName: string,
+  connection: Connection,
+): Promise<StructuredToolInterface[]> {
+  const key = JSON.stringify([serverName, connection]);
+  let server = connectedServers.get(key);
+  if (!server) {
+    const client = new MultiServerMCPClient({
+      mcpServers: { [serverName]: connection },
+      throwOnLoadError: false,
+      // Names are only prefixed on collision, in `loadMcpTools`.
+      prefixToolNameWithServerName: false,
+      additionalToolNamePrefix: "",
+    });
+    const tools = client.getTools().catch(async (error) => {
+      if (connectedServers.get(key)?.client === client) {
+        await closeServer(key);
+      }
+      throw error;
+    });
+    server = { client, tools, lastUsed: Date.now() };
+    connectedServers.set(key, server);
+  }
+  server.lastUsed = Date.now();
+  try {
+    return await server.tools;
+  } catch (error) {
+    console.warn(
+      `Failed to load tools from MCP server "${serverName}":`,
+      error,
+    );
+    return [];
+  }
+}
+
+/**
+ * Return a copy of a tool under a different name, leaving the cached tool
+ * untouched.
+ */
+function renameTool(
+  tool: StructuredToolInterface,
+  name: string,
+): StructuredToolInterface {
+  return Object.assign(Object.create(Object.getPrototypeOf(tool)), tool, {
+    name,
+  });
+}
+
+/**
+ * Check whether a server is started as a local process rather than reached by
+ * URL.
+ */
+function isStdioServer(connection: Connection): boolean {
+  return !("url" in connection);
+}
+
+/**
+ * Read the MCP servers configured for the deployment from the `MCP_SERVERS`
+ * environment variable: a JSON object of server name to connection settings.
+ */
+export function getDeploymentMcpServers(): Record<string, Connection> {
+  const value = process.env.MCP_SERVERS;
+  if (!value) {
+    return {};
+  }
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    throw new Error(
+      `MCP_SERVERS must be a JSON object of server name to connection settings: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+}
+
+/**
+ * Load the tools of the deployment's MCP servers and those in the run's
+ * configuration.
+ * @param mcpServers - Server name to connection settings from the run's
+ *   configuration. Only URL servers (`{ url, transport }`) are accepted here;
+ *   stdio commands (`{ command, args, env }`) must be set in `MCP_SERVERS`.
+ * @param reservedNames - Tool names already in use, such as the built-ins.
+ * @returns The MCP tools. A tool whose name is already taken is renamed to
+ *   `<server>__<tool>`; if that is taken too, it is skipped with a warning.
+ */
+export async function loadMcpTools(
+  mcpServers: Record<string, Connection>,
+  reservedNames: string[],
+): Promise<StructuredToolInterface[]> {
+  const stdioServers = Object.entries(mcpServers)
+    .filter(([, connection]) => isStdioServer(connection))
+    .map(([serverName]) => serverName);
+  if (stdioServers.length) {
+    throw new Error(
+      `MCP servers that run a command can only be configured in the MCP_SERVERS environment variable, not in mcpServers: ${stdioServers.join(", ")}`,
+    );
+  }
+
+  await evictServers(Date.now());
+  // The deployment's servers win over a run's servers of the same name.
+  const servers = Object.entries({
+    ...mcpServers,
+    ...getDeploymentMcpServers(),
+  });
+  const toolsPerServer = await Promise.all(
+    servers.map(([serverName, connection]) =>
+      loadServerTools(serverName, connection),
+    ),
+  );
+
+  const usedNames = new Set(reservedNames);
+  const tools: StructuredToolInterface[] = [];
+  servers.forEach(([serverName], index) => {
+    for (const tool of toolsPerServer[index]) {
+      if (!usedNames.has(tool.name)) {
+        usedNames.add(tool.name);
+        tools.push(tool);
+        continue;
+      }
+      const prefixedName = `${serverName}__${tool.name}`;
+      if (usedNames.has(prefixedName)) {
+        console.warn(
+          `Skipping MCP tool "${tool.name}" from server "${serverName}": the name is already in use`,
+        );
+        continue;
+      }
+      usedNames.add(prefixedName);
+      tools.push(renameTool(tool, prefixedName));
+    }
+  });
+  return tools;
+}
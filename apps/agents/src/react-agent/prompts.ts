@@ -5,3 +5,13 @@
 export const SYSTEM_PROMPT_TEMPLATE = `You are a helpful AI assistant.
 
 System time: {system_time}`;
+
+export const WRAP_UP_PROMPT = `You have used all of the tool calls available for this request, so you cannot call any more tools.
+
+Write your final answer to the user now. Summarize what you found and what you did so far, answer as well as you can with that information, and say clearly what remains unresolved.`;
+
+export const WRAP_UP_RETRY_PROMPT = `Answer in text now. Tools are no longer available.`;
+
+export const WRAP_UP_FALLBACK = `I used all of the tool calls available for this request before I could finish. Ask me to continue, or narrow the request, and I will pick up from here.`;
+
+export const STRUCTURED_RESPONSE_PROMPT = `The conversation is over. Give your final answer to the user's last request by calling the \`final_answer\` tool, following its schema exactly. Use only information from the conversation.`;
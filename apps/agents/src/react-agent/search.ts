@@ -0,0 +1,202 @@
+/**
+ * Web search backends for the ReAct agent.
+ * Every provider returns the same result shape, so prompts and the UI look the
+ * same whichever backend is configured.
+ */
+import fs from "fs/promises";
+import { TavilySearchResults } from "@langchain/community/tools/tavily_search";
+
+import { ensureConfiguration } from "./configuration.js";
+
+type Configuration = ReturnType<typeof ensureConfiguration>;
+
+/**
+ * A single web search result.
+ */
+export interface SearchResult {
+  title: string;
+  url: string;
+  content: string;
+  score?: number;
+}
+
+/**
+ * Run a search query against a backend and return normalized results,
+ * stopping when the signal is aborted where the backend allows it.
+ */
+export type SearchProvider = (
+  query: string,
+  signal?: AbortSignal,
+) => Promise<SearchResult[]>;
+
+/**
+ * Check whether a URL's host is the given domain or one of its subdomains.
+ */
+function matchesDomain(url: string, domain: string): boolean {
+  try {
+    const host = new URL(url).hostname.toLowerCase();
+    const target = domain.toLowerCase().replace(/^www\./, "");
+    return host === target || host.endsWith(`.${target}`);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Apply the configured domain filters and result limit.
+ * Backends that filter natively still pass through here, so every provider
+ * enforces the same rules.
+ */
+export function filterResults(
+  results: SearchResult[],
+  configuration: Configuration,
+): SearchResult[] {
+  const { includeDomains, excludeDomains, maxResults } = configuration;
+  return results
+    .filter(
+      (result) =>
+        !includeDomains.length ||
+        includeDomains.some((domain) => matchesDomain(result.url, domain)),
+    )
+    .filter(
+      (result) =>
+        !excludeDomains.some((domain) => matchesDomain(result.url, domain)),
+    )
+    .slice(0, maxResults);
+}
+
+/**
+ * Map a backend's raw result onto `SearchResult`, defaulting missing fields.
+ */
+function toSearchResult(result: Record<string, any>): SearchResult {
+  return {
+    title: result.title ?? "",
+    url: result.url ?? "",
+    content: result.content ?? "",
+    score: result.score,
+  };
+}
+
+function makeTavilySearch(configuration: Configuration): SearchProvider {
+  const tavily = new TavilySearchResults({
+    maxResults: configuration.maxResults,
+    includeDomains: configuration.includeDomains.length
+      ? configuration.includeDomains
+      : undefined,
+    excludeDomains: configuration.excludeDomains.length
+      ? configuration.excludeDomains
+      : undefined,
+  });
+  return async (query) => {
+    const raw = JSON.parse(await tavily.invoke(query));
+    return raw.map(toSearchResult);
+  };
+}
+
+/**
+ * Add domain filters to a query as `site:` operators, for backends that only
+ * take a query string, so they return results from the wanted domains instead
+ * of leaving them all to `filterResults`.
+ */
+export function addSiteOperators(
+  query: string,
+  configuration: Configuration,
+): string {
+  const include = configuration.includeDomains.map(
+    (domain) => `site:${domain}`,
+  );
+  const exclude = configuration.excludeDomains.map(
+    (domain) => `-site:${domain}`,
+  );
+  return [
+    query,
+    include.length > 1 ? `(${include.join(" OR ")})` : include[0],
+    ...exclude,
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
+
+function makeSearxngSearch(configuration: Configuration): SearchProvider {
+  const searxngUrl = process.env.SEARXNG_URL;
+  if (!searxngUrl) {
+    throw new Error("SEARXNG_URL environment variable is not defined");
+  }
+  return async (query, signal) => {
+    const url = new URL(
+      "search",
+      searxngUrl.endsWith("/") ? searxngUrl : `${searxngUrl}/`,
+    );
+    url.searchParams.set("q", addSiteOperators(query, configuration));
+    url.searchParams.set("format", "json");
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(
+        `SearXNG request failed with status code ${response.status}`,
+      );
+    }
+    const json = await response.json();
+    if (!Array.isArray(json.results)) {
+      throw new Error("Could not parse SearXNG results.");
+    }
+    return json.results.map(toSearchResult);
+  };
+}
+
+function makeFixtureSearch(): SearchProvider {
+  // Read from the deployment, not the run configuration, so callers cannot
+  // have the server read arbitrary files.
+  const fixturesFile = process.env.SEARCH_FIXTURES_FILE;
+  if (!fixturesFile) {
+    throw new Error("SEARCH_FIXTURES_FILE environment variable is not defined");
+  }
+  return async (query, signal) => {
+    // The file holds either one list of results for every query, or a map from
+    // query to results with an optional "*" fallback.
+    const fixtures = JSON.parse(
+      await fs.readFile(fixturesFile, { encoding: "utf-8", signal }),
+    );
+    let results = fixtures;
+    if (!Array.isArray(fixtures) && typeof fixtures === "object" && fixtures) {
+      const key = Object.keys(fixtures).find(
+        (candidate) => candidate.toLowerCase() === query.toLowerCase(),
+      );
+      results = fixtures[key ?? "*"] ?? [];
+    }
+    if (
+      !Array.isArray(results) ||
+      results.some((result) => typeof result !== "object" || !result)
+    ) {
+      throw new Error("Could not parse search fixtures.");
+    }
+    return results.map(toSearchResult);
+  };
+}
+
+/**
+ * Create the search backend selected in the configuration.
+ * @param configuration - The agent configuration.
+ * @returns A provider whose results are filtered by domain and limited to `maxResults`.
+ */
+export function makeSearchProvider(
+  configuration: Configuration,
+): SearchProvider {
+  let provider: SearchProvider;
+  switch (configuration.searchProvider) {
+    case "tavily":
+      provider = makeTavilySearch(configuration);
+      break;
+    case "searxng":
+      provider = makeSearxngSearch(configuration);
+      break;
+    case "fixture":
+      provider = makeFixtureSearch();
+      break;
+    default:
+      throw new Error(
+        `Unrecognized searchProvider in configuration: ${configuration.searchProvider}`,
+      );
+  }
+  return async (query, signal) =>
+    filterResults(await provider(query, signal), configuration);
+}
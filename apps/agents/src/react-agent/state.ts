@@ -0,0 +1,54 @@
+import { Annotation, MessagesAnnotation } from "@langchain/langgraph";
+import { ContextAnnotation } from "../shared/context.js";
+
+/**
+ * The state of the ReAct agent.
+ */
+export const StateAnnotation = Annotation.Root({
+  /**
+   * The conversation messages.
+   * @see https://langchain-ai.github.io/langgraphjs/reference/variables/langgraph.MessagesAnnotation.html
+   */
+  ...MessagesAnnotation.spec,
+
+  /**
+   * The running summary of turns that no longer fit in the context window.
+   */
+  ...ContextAnnotation.spec,
+
+  /**
+   * The number of tool-calling rounds taken since the user's last message.
+   * Once it reaches `maxToolIterations`, the agent stops calling tools and
+   * wraps up with a final answer.
+   */
+  toolIterations: Annotation<number>({
+    reducer: (_existing: number, updated: number) => updated,
+    default: () => 0,
+  }),
+
+  /**
+   * Consecutive failures per tool in this thread. Nodes report the outcome
+   * of each call, in order, so several calls to one tool in a round each
+   * count; a success resets the count. Tools that reach
+   * `toolFailureThreshold` are no longer offered to the model, nor run.
+   */
+  toolFailures: Annotation<
+    Record<string, number>,
+    { name: string; outcome: "success" | "failure" }[]
+  >({
+    reducer: (existing, outcomes) => {
+      const updated = { ...existing };
+      for (const { name, outcome } of outcomes) {
+        updated[name] = outcome === "success" ? 0 : (updated[name] ?? 0) + 1;
+      }
+      return updated;
+    },
+    default: () => ({}),
+  }),
+
+  /**
+   * The final answer as an object that validates against the configured
+   * `responseSchema`. Only set when a schema is configured.
+   */
+  structuredResponse: Annotation<Record<string, any> | undefined>,
+});
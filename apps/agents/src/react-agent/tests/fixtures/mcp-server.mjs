@@ -0,0 +1,54 @@
+// A minimal MCP server over stdio for tests: it lists one `echo` tool and
+// writes its process id to PID_FILE, so tests can tell when it is stopped.
+/* global process */
+import fs from "fs";
+import readline from "readline";
+
+if (process.env.PID_FILE) {
+  fs.writeFileSync(process.env.PID_FILE, String(process.pid));
+}
+
+const tools = [
+  {
+    name: "echo",
+    description: "Return the text it is given.",
+    inputSchema: {
+      type: "object",
+      properties: { text: { type: "string" } },
+      required: ["text"],
+    },
+  },
+];
+
+function handle(method, params) {
+  switch (method) {
+    case "initialize":
+      return {
+        protocolVersion: params.protocolVersion,
+        capabilities: { tools: {} },
+        serverInfo: { name: "fixture", version: "1.0.0" },
+      };
+    case "tools/list":
+      return { tools };
+    case "tools/call":
+      return { content: [{ type: "text", text: params.arguments.text }] };
+    case "ping":
+      return {};
+    default:
+      return undefined;
+  }
+}
+
+readline.createInterface({ input: process.stdin }).on("line", (line) => {
+  const { id, method, params } = JSON.parse(line);
+  // Notifications have no id and get no reply.
+  if (id === undefined) {
+    return;
+  }
+  const result = handle(method, params);
+  const reply =
+    result === undefined
+      ? { jsonrpc: "2.0", id, error: { code: -32601, message: method } }
+      : { jsonrpc: "2.0", id, result };
+  process.stdout.write(`${JSON.stringify(reply)}\n`);
+});
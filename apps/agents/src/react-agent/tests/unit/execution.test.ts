@@ -0,0 +1,182 @@
+import { describe, it, expect } from "@jest/globals";
+import { tool } from "@langchain/core/tools";
+import { z } from "zod";
+import { ensureConfiguration } from "../../configuration.js";
+import {
+  executeToolCall,
+  isTransientError,
+  ToolRetryPolicy,
+} from "../../execution.js";
+
+const configuration = ensureConfiguration({
+  configurable: { toolRetryDelayMs: 1, toolTimeouts: { slow: 20 } },
+});
+
+function makeTool(
+  name: string,
+  run: () => Promise<string>,
+  policy: ToolRetryPolicy = { idempotent: true },
+) {
+  return tool(run, {
+    name,
+    description: name,
+    schema: z.object({}),
+    metadata: { ...policy },
+  });
+}
+
+describe("executeToolCall", () => {
+  it("retries transient errors until the tool succeeds", async () => {
+    let calls = 0;
+    const flaky = makeTool("flaky", async () => {
+      calls += 1;
+      if (calls < 3) {
+        throw new Error("fetch failed");
+      }
+      return "ok";
+    });
+    const result = await executeToolCall(
+      flaky,
+      { name: "flaky", args: {}, id: "call_1" },
+      configuration,
+      {},
+    );
+    expect(result.content).toBe("ok");
+    expect(result.status).not.toBe("error");
+    expect(calls).toBe(3);
+  });
+
+  it("does not retry tools that are not idempotent", async () => {
+    let calls = 0;
+    const send = makeTool(
+      "send",
+      async () => {
+        calls += 1;
+        throw new Error("fetch failed");
+      },
+      {},
+    );
+    const result = await executeToolCall(
+      send,
+      { name: "send", args: {}, id: "call_1" },
+      configuration,
+      {},
+    );
+    expect(result.status).toBe("error");
+    expect(calls).toBe(1);
+
+    calls = 0;
+    await executeToolCall(
+      send,
+      { name: "send", args: {}, id: "call_2" },
+      ensureConfiguration({
+        configurable: { toolRetryDelayMs: 1, idempotentTools: ["send"] },
+      }),
+      {},
+    );
+    expect(calls).toBe(3);
+  });
+
+  it("does not retry a timed-out call that may still be running", async () => {
+    let calls = 0;
+    const slow = makeTool("slow", () => {
+      calls += 1;
+      return new Promise((resolve) => setTimeout(() => resolve("late"), 200));
+    });
+    const result = await executeToolCall(
+      slow,
+      { name: "slow", args: {}, id: "call_1" },
+      configuration,
+      {},
+    );
+    expect(result.status).toBe("error");
+    expect(JSON.parse(result.content as string)).toMatchObject({
+      type: "ToolTimeoutError",
+      attempts: 1,
+    });
+    expect(calls).toBe(1);
+  });
+
+  it("retries timed-out calls to tools that stop when aborted", async () => {
+    const slow = makeTool(
+      "slow",
+      () => new Promise((resolve) => setTimeout(() => resolve("late"), 200)),
+      { idempotent: true, abortable: true },
+    );
+    const result = await executeToolCall(
+      slow,
+      { name: "slow", args: {}, id: "call_1" },
+      configuration,
+      {},
+    );
+    expect(result.status).toBe("error");
+    expect(JSON.parse(result.content as string)).toMatchObject({
+      type: "ToolTimeoutError",
+      attempts: configuration.toolMaxRetries + 1,
+      retryable: true,
+    });
+  });
+
+  it("does not retry other errors", async () => {
+    let calls = 0;
+    const broken = makeTool("broken", async () => {
+      calls += 1;
+      throw new Error("Invalid input");
+    });
+    const result = await executeToolCall(
+      broken,
+      { name: "broken", args: {}, id: "call_1" },
+      configuration,
+      {},
+    );
+    expect(result.status).toBe("error");
+    expect(calls).toBe(1);
+  });
+
+  it("reports unknown tools as errors", async () => {
+    const result = await executeToolCall(
+      undefined,
+      { name: "missing", args: {}, id: "call_1" },
+      configuration,
+      {},
+    );
+    expect(result.status).toBe("error");
+    expect(result.tool_call_id).toBe("call_1");
+  });
+});
+
+describe("isTransientError", () => {
+  it("recognizes rate limits and server errors", () => {
+    expect(isTransientError(new Error("429 Too Many Requests"))).toBe(true);
+    expect(isTransientError(new Error("Request failed with status 503"))).toBe(
+      true,
+    );
+    expect(isTransientError(new Error("File not found"))).toBe(false);
+  });
+
+  it("recognizes connection errors by their code", () => {
+    const reset = Object.assign(new Error("read failed"), {
+      code: "ECONNRESET",
+    });
+    const fetchFailed = new TypeError("fetch failed", {
+      cause: Object.assign(new Error("connect"), { code: "ECONNREFUSED" }),
+    });
+    const unavailable = Object.assign(new Error("Unavailable"), {
+      status: 503,
+    });
+    expect(isTransientError(reset)).toBe(true);
+    expect(isTransientError(fetchFailed)).toBe(true);
+    expect(isTransientError(unavailable)).toBe(true);
+  });
+
+  it("does not mistake other errors for transient ones", () => {
+    expect(isTransientError(new Error("Invalid network name"))).toBe(false);
+    expect(isTransientError(new Error("Temporarily disabled by admin"))).toBe(
+      false,
+    );
+    expect(isTransientError(new Error("Syntax error on line 502"))).toBe(false);
+    expect(isTransientError(new Error("Request failed with status 500"))).toBe(
+      false,
+    );
+  });
+});
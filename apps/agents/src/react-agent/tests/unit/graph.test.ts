@@ -1,3 +1,155 @@
-import { it } from "@jest/globals";
+import { describe, it, expect } from "@jest/globals";
+import { AIMessage } from "@langchain/core/messages";
+import { startFakeOpenAI } from "../../../shared/tests/fake-openai.js";
+import { ensureConfiguration } from "../../configuration.js";
+import { graph } from "../../graph.js";
+import { WRAP_UP_FALLBACK, WRAP_UP_PROMPT } from "../../prompts.js";
 
 it("Test", async () => {});
+
+const configurable = {
+  model: "openai/gpt-4o-mini",
+  enabledTools: ["calculator"],
+};
+
+const addOne = { name: "calculator", args: { expression: "1 + 1" } };
+
+/**
+ * Check whether a request to the fake model is the wrap-up call.
+ */
+const isWrapUp = (body: Record<string, any>) =>
+  body.messages[0].content.includes(WRAP_UP_PROMPT);
+
+describe("tool budget", () => {
+  it("wraps up with a text answer after maxToolIterations rounds", async () => {
+    const fake = await startFakeOpenAI((body) =>
+      isWrapUp(body)
+        ? { content: "1 + 1 is 2.", toolCalls: [addOne] }
+        : { toolCalls: [addOne] },
+    );
+    try {
+      const result = await graph.invoke(
+        { messages: [{ role: "user", content: "Add 1 and 1, forever." }] },
+        {
+          configurable: ensureConfiguration({
+            configurable: { ...configurable, maxToolIterations: 2 },
+          }),
+        },
+      );
+      expect(result.toolIterations).toBe(2);
+      const last = result.messages[result.messages.length - 1] as AIMessage;
+      expect(last.content).toBe("1 + 1 is 2.");
+      expect(last.tool_calls ?? []).toEqual([]);
+      // The calls the budget did not cover are answered, not left dangling.
+      const skipped = result.messages[result.messages.length - 2];
+      expect(skipped._getType()).toBe("tool");
+      expect(skipped.content).toContain("Not run");
+    } finally {
+      await fake.close();
+    }
+  });
+
+  it("wraps up before the recursion limit is reached", async () => {
+    const fake = await startFakeOpenAI((body) => {
+      if (body.tool_choice?.function?.name === "final_answer") {
+        return { toolCalls: [{ name: "final_answer", args: {} }] };
+      }
+      return isWrapUp(body) ? { content: "Done." } : { toolCalls: [addOne] };
+    });
+    try {
+      for (const [recursionLimit, responseSchema, rounds] of [
+        [10, null, 2],
+        [24, null, 7],
+        // Structuring the answer takes one more step.
+        [24, { type: "object" }, 6],
+      ] as const) {
+        fake.requests.length = 0;
+        const result = await graph.invoke(
+          { messages: [{ role: "user", content: "Keep adding." }] },
+          {
+            recursionLimit,
+            configurable: ensureConfiguration({
+              configurable: {
+                ...configurable,
+                maxToolIterations: 100,
+                responseSchema,
+              },
+            }),
+          },
+        );
+        expect(result.toolIterations).toBe(rounds);
+        expect(fake.requests.filter(isWrapUp)).toHaveLength(1);
+      }
+    } finally {
+      await fake.close();
+    }
+  });
+
+  it("never wraps up with an empty answer", async () => {
+    let wrapUps = 0;
+    const fake = await startFakeOpenAI((body) => {
+      if (!isWrapUp(body)) {
+        return { toolCalls: [addOne] };
+      }
+      wrapUps += 1;
+      return wrapUps === 2
+        ? { content: "Here is what I have." }
+        : { toolCalls: [addOne] };
+    });
+    try {
+      const invoke = async () => {
+        const result = await graph.invoke(
+          { messages: [{ role: "user", content: "Keep adding." }] },
+          {
+            configurable: ensureConfiguration({
+              configurable: { ...configurable, maxToolIterations: 1 },
+            }),
+          },
+        );
+        return result.messages[result.messages.length - 1].content;
+      };
+      // Asked again, the model writes an answer.
+      expect(await invoke()).toBe("Here is what I have.");
+      // If it still only calls tools, the user gets a fixed answer.
+      expect(await invoke()).toBe(WRAP_UP_FALLBACK);
+    } finally {
+      await fake.close();
+    }
+  });
+});
+
+describe("tool failure breaker", () => {
+  it("counts every failed call and stops running tripped tools", async () => {
+    const divideByZero = { name: "calculator", args: { expression: "1 / 0" } };
+    const fake = await startFakeOpenAI((body) => {
+      const rounds = body.messages.filter(
+        (message: { role: string }) => message.role === "tool",
+      ).length;
+      if (rounds === 0) {
+        return { toolCalls: [divideByZero, divideByZero] };
+      }
+      // The tool is no longer offered, but the model calls it anyway.
+      return rounds === 2 ? { toolCalls: [addOne] } : { content: "Sorry." };
+    });
+    try {
+      const result = await graph.invoke(
+        { messages: [{ role: "user", content: "Divide 1 by 0." }] },
+        {
+          configurable: ensureConfiguration({
+            configurable: { ...configurable, toolFailureThreshold: 2 },
+          }),
+        },
+      );
+      expect(result.toolFailures).toEqual({ calculator: 2 });
+      expect(fake.requests[1].tools).toBeUndefined();
+      const skipped = result.messages[result.messages.length - 2];
+      expect(skipped._getType()).toBe("tool");
+      expect(skipped.content).toContain("disabled in this thread");
+      expect(result.messages[result.messages.length - 1].content).toBe(
+        "Sorry.",
+      );
+    } finally {
+      await fake.close();
+    }
+  });
+});
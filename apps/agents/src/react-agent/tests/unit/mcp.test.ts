@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { closeMcpClients, loadMcpTools } from "../../mcp.js";
+
+const serverFile = fileURLToPath(
+  new URL("../fixtures/mcp-server.mjs", import.meta.url),
+);
+
+/**
+ * Check whether a process is still running.
+ */
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wait until a condition holds, or fail after a few seconds.
+ */
+async function waitFor(condition: () => Promise<boolean> | boolean) {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    if (await condition()) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+  throw new Error("Timed out waiting for the condition");
+}
+
+describe("loadMcpTools", () => {
+  let pidFile: string;
+  let readPid: () => Promise<number>;
+
+  beforeEach(async () => {
+    await closeMcpClients();
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-"));
+    pidFile = path.join(dir, "server.pid");
+    readPid = async () => Number(await fs.readFile(pidFile, "utf-8"));
+    process.env.MCP_SERVERS = JSON.stringify({
+      fixture: {
+        command: process.execPath,
+        args: [serverFile],
+        env: { PID_FILE: pidFile },
+      },
+    });
+  });
+
+  it("rejects servers that run a command from the run's configuration", async () => {
+    await expect(
+      loadMcpTools({ shell: { command: "sh", args: ["-c", "id"] } }, []),
+    ).rejects.toThrow("MCP_SERVERS environment variable");
+  });
+
+  it("loads the deployment's servers and renames clashing tools", async () => {
+    try {
+      const tools = await loadMcpTools({}, ["echo"]);
+      expect(tools.map((tool) => tool.name)).toEqual(["fixture__echo"]);
+      expect(await tools[0].invoke({ text: "hello" })).toContain("hello");
+    } finally {
+      await closeMcpClients();
+    }
+  });
+
+  it("reuses a server, and stops it when its client is closed", async () => {
+    await loadMcpTools({}, []);
+    const pid = await readPid();
+    await loadMcpTools({}, []);
+    expect(await readPid()).toBe(pid);
+
+    await closeMcpClients();
+    await waitFor(() => !isRunning(pid));
+  });
+
+  it("stops servers that have gone unused", async () => {
+    await loadMcpTools({}, []);
+    const pid = await readPid();
+
+    const now = Date.now;
+    Date.now = () => now() + 60 * 60 * 1000;
+    try {
+      process.env.MCP_SERVERS = "";
+      await loadMcpTools({}, []);
+    } finally {
+      Date.now = now;
+    }
+    await waitFor(() => !isRunning(pid));
+  });
+});
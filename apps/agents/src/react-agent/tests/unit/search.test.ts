@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import fs from "fs/promises";
+import http from "http";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import { fileURLToPath } from "url";
+import { ensureConfiguration } from "../../configuration.js";
+import { addSiteOperators, makeSearchProvider } from "../../search.js";
+
+const fixturesFile = fileURLToPath(
+  new URL("../fixtures/search.json", import.meta.url),
+);
+
+describe("makeSearchProvider", () => {
+  beforeEach(() => {
+    process.env.SEARCH_FIXTURES_FILE = fixturesFile;
+  });
+
+  it("returns fixture results for a matching query", async () => {
+    const search = makeSearchProvider(
+      ensureConfiguration({
+        configurable: {
+          searchProvider: "fixture",
+        },
+      }),
+    );
+    const results = await search("Weather in SF");
+    expect(results).toHaveLength(2);
+    expect(results[0]).toEqual(
+      expect.objectContaining({
+        title: "San Francisco Weather Forecast",
+        url: "https://weather.example.com/sf",
+      }),
+    );
+  });
+
+  it("falls back to the wildcard fixture", async () => {
+    const search = makeSearchProvider(
+      ensureConfiguration({
+        configurable: {
+          searchProvider: "fixture",
+        },
+      }),
+    );
+    const results = await search("something else");
+    expect(results.map((r) => r.url)).toEqual(["https://example.com"]);
+  });
+
+  it("applies domain filters and maxResults", async () => {
+    const search = makeSearchProvider(
+      ensureConfiguration({
+        configurable: {
+          searchProvider: "fixture",
+          excludeDomains: ["example.org"],
+          maxResults: 1,
+        },
+      }),
+    );
+    const results = await search("weather in sf");
+    expect(results.map((r) => r.url)).toEqual([
+      "https://weather.example.com/sf",
+    ]);
+  });
+
+  it("fills in missing fields and rejects malformed fixtures", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "search-"));
+    process.env.SEARCH_FIXTURES_FILE = path.join(dir, "search.json");
+    const search = makeSearchProvider(
+      ensureConfiguration({ configurable: { searchProvider: "fixture" } }),
+    );
+    await fs.writeFile(
+      process.env.SEARCH_FIXTURES_FILE,
+      JSON.stringify({ "*": [{ url: "https://example.com" }] }),
+    );
+    expect(await search("anything")).toEqual([
+      { title: "", url: "https://example.com", content: "", score: undefined },
+    ]);
+    await fs.writeFile(
+      process.env.SEARCH_FIXTURES_FILE,
+      JSON.stringify({ "*": "not a list" }),
+    );
+    await expect(search("anything")).rejects.toThrow(
+      "Could not parse search fixtures.",
+    );
+  });
+
+  it("needs SEARCH_FIXTURES_FILE for the fixture provider", () => {
+    delete process.env.SEARCH_FIXTURES_FILE;
+    expect(() =>
+      makeSearchProvider(
+        ensureConfiguration({
+          configurable: { searchProvider: "fixture" },
+        }),
+      ),
+    ).toThrow("SEARCH_FIXTURES_FILE environment variable is not defined");
+  });
+
+  it("throws for an unknown provider", () => {
+    expect(() =>
+      makeSearchProvider(
+        ensureConfiguration({ configurable: { searchProvider: "bing" } }),
+      ),
+    ).toThrow("Unrecognized searchProvider");
+  });
+});
+
+describe("SearXNG search", () => {
+  it("passes the domain filters to SearXNG as site: terms", async () => {
+    const queries: string[] = [];
+    const server = http.createServer((req, res) => {
+      queries.push(
+        new URL(req.url!, "http://localhost").searchParams.get("q")!,
+      );
+      res.setHeader("content-type", "application/json");
+      res.end(
+        JSON.stringify({
+          results: [
+            { title: "Docs", url: "https://docs.a.com/x", content: "" },
+          ],
+        }),
+      );
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    const previous = process.env.SEARXNG_URL;
+    process.env.SEARXNG_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    try {
+      const search = makeSearchProvider(
+        ensureConfiguration({
+          configurable: {
+            searchProvider: "searxng",
+            includeDomains: ["a.com", "b.com"],
+            excludeDomains: ["c.com"],
+          },
+        }),
+      );
+      const results = await search("langgraph");
+      expect(queries).toEqual([
+        "langgraph (site:a.com OR site:b.com) -site:c.com",
+      ]);
+      expect(results.map((r) => r.url)).toEqual(["https://docs.a.com/x"]);
+    } finally {
+      if (previous === undefined) {
+        delete process.env.SEARXNG_URL;
+      } else {
+        process.env.SEARXNG_URL = previous;
+      }
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("adds a single site: term, or none without domain filters", () => {
+    const configuration = ensureConfiguration({
+      configurable: { includeDomains: ["a.com"] },
+    });
+    expect(addSiteOperators("news", configuration)).toBe("news site:a.com");
+    expect(addSiteOperators("news", ensureConfiguration({}))).toBe("news");
+  });
+});
+
+describe("web_search configuration", () => {
+  it("accepts its earlier name in per-tool settings", () => {
+    const configuration = ensureConfiguration({
+      configurable: {
+        enabledTools: [
+          "tavily_search_results_json",
+          "web_search",
+          "calculator",
+        ],
+        toolApprovals: { tavily_search_results_json: { allow_edit: false } },
+        toolTimeouts: { tavily_search_results_json: 1000, web_search: 2000 },
+      },
+    });
+    expect(configuration.enabledTools).toEqual(["web_search", "calculator"]);
+    expect(configuration.toolApprovals).toEqual({
+      web_search: { allow_edit: false },
+    });
+    expect(configuration.toolTimeouts).toEqual({ web_search: 2000 });
+  });
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { StructuredToolInterface } from "@langchain/core/tools";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { ensureConfiguration } from "../../configuration.js";
+import { getTools } from "../../tools.js";
+
+/**
+ * Build one built-in tool, configured as in a run.
+ */
+async function getTool(
+  name: string,
+  configurable: Record<string, unknown> = {},
+): Promise<StructuredToolInterface> {
+  const [tool] = await getTools(
+    ensureConfiguration({
+      configurable: { ...configurable, enabledTools: [name] },
+    }),
+  );
+  return tool;
+}
+
+beforeEach(() => {
+  // Only the built-in tools are under test.
+  delete process.env.MCP_SERVERS;
+  delete process.env.AGENT_FILE_ROOT;
+});
+
+describe("getTools", () => {
+  it("rejects unknown tools", async () => {
+    await expect(
+      getTools(
+        ensureConfiguration({ configurable: { enabledTools: ["shell"] } }),
+      ),
+    ).rejects.toThrow("Unknown tools in enabledTools: shell");
+  });
+
+  it("needs a file root from the deployment for the file tools", async () => {
+    for (const name of ["read_file", "list_files", "grep_files"]) {
+      await expect(getTool(name, { fileRoot: "/" })).rejects.toThrow(
+        `${name} need a file root`,
+      );
+    }
+  });
+});
+
+describe("calculator", () => {
+  it("evaluates arithmetic", async () => {
+    const calculator = await getTool("calculator");
+    expect(await calculator.invoke({ expression: "2 * (3 + sqrt(16))" })).toBe(
+      "14",
+    );
+    expect(await calculator.invoke({ expression: "2 ^ 10 % 1000" })).toBe("24");
+  });
+
+  it("rejects results that are not finite numbers", async () => {
+    const calculator = await getTool("calculator");
+    await expect(calculator.invoke({ expression: "1 / 0" })).rejects.toThrow(
+      "finite number",
+    );
+  });
+
+  it("rejects code and malformed input", async () => {
+    const calculator = await getTool("calculator");
+    await expect(
+      calculator.invoke({ expression: "process.exit()" }),
+    ).rejects.toThrow();
+    await expect(calculator.invoke({ expression: "2 +" })).rejects.toThrow();
+    await expect(calculator.invoke({ expression: 2 })).rejects.toThrow();
+  });
+});
+
+describe("date_math", () => {
+  it("adds durations, clamping to the end of the month", async () => {
+    const dateMath = await getTool("date_math");
+    expect(
+      await dateMath.invoke({
+        operation: "add",
+        date: "2024-01-31T00:00:00Z",
+        amount: 1,
+        unit: "months",
+      }),
+    ).toBe("2024-02-29T00:00:00.000Z");
+    expect(
+      await dateMath.invoke({
+        operation: "add",
+        date: "2024-03-01T12:00:00Z",
+        amount: -36,
+        unit: "hours",
+      }),
+    ).toBe("2024-02-29T00:00:00.000Z");
+  });
+
+  it("measures the time between two dates", async () => {
+    const dateMath = await getTool("date_math");
+    const between = { date: "2024-01-15T00:00:00Z", operation: "diff" };
+    expect(
+      await dateMath.invoke({
+        ...between,
+        otherDate: "2024-01-22T00:00:00Z",
+      }),
+    ).toBe("7 days");
+    expect(
+      await dateMath.invoke({
+        ...between,
+        otherDate: "2025-07-15T00:00:00Z",
+        unit: "years",
+      }),
+    ).toBe("1.5 years");
+  });
+
+  it("shows the time in a time zone as well as in UTC", async () => {
+    const dateMath = await getTool("date_math");
+    const result = await dateMath.invoke({
+      operation: "add",
+      date: "2024-07-01T12:00:00Z",
+      timeZone: "America/New_York",
+    });
+    expect(result).toContain("July 1, 2024");
+    expect(result).toContain("(2024-07-01T12:00:00.000Z)");
+  });
+
+  it("rejects invalid dates and options", async () => {
+    const dateMath = await getTool("date_math");
+    await expect(
+      dateMath.invoke({ operation: "add", date: "next Tuesday" }),
+    ).rejects.toThrow("Invalid date: next Tuesday");
+    await expect(
+      dateMath.invoke({
+        operation: "diff",
+        date: "2024-01-01T00:00:00Z",
+        otherDate: "soon",
+      }),
+    ).rejects.toThrow("Invalid date: soon");
+    await expect(
+      dateMath.invoke({ operation: "add", unit: "fortnights" }),
+    ).rejects.toThrow();
+    await expect(dateMath.invoke({ operation: "undo" })).rejects.toThrow();
+  });
+});
+
+describe("file tools", () => {
+  let fileRoot: string;
+
+  beforeEach(async () => {
+    const parent = await fs.mkdtemp(path.join(os.tmpdir(), "tools-"));
+    fileRoot = path.join(parent, "root");
+    await fs.mkdir(path.join(fileRoot, "docs"), { recursive: true });
+    await fs.mkdir(path.join(fileRoot, "node_modules"));
+    await fs.writeFile(path.join(parent, "secret.txt"), "TODO: leaked");
+    await fs.writeFile(path.join(fileRoot, "notes.txt"), "todo: write tests\n");
+    await fs.writeFile(
+      path.join(fileRoot, "docs", "plan.md"),
+      "# Plan\nTODO: ship it\n",
+    );
+    await fs.writeFile(
+      path.join(fileRoot, "node_modules", "dep.js"),
+      "// TODO: ignored\n",
+    );
+    process.env.AGENT_FILE_ROOT = fileRoot;
+  });
+
+  it("reads files under the root", async () => {
+    const readFile = await getTool("read_file");
+    expect(await readFile.invoke({ path: "docs/plan.md" })).toBe(
+      "# Plan\nTODO: ship it\n",
+    );
+  });
+
+  it("truncates large files", async () => {
+    await fs.writeFile(path.join(fileRoot, "big.txt"), "x".repeat(100_001));
+    const readFile = await getTool("read_file");
+    const content = await readFile.invoke({ path: "big.txt" });
+    expect(content).toBe(
+      `${"x".repeat(100_000)}\n... [truncated, 100001 bytes total]`,
+    );
+  });
+
+  it("reports missing files and paths outside the root", async () => {
+    const readFile = await getTool("read_file");
+    await expect(readFile.invoke({ path: "missing.txt" })).rejects.toThrow(
+      "ENOENT",
+    );
+    await expect(readFile.invoke({ path: "../secret.txt" })).rejects.toThrow(
+      "outside the allowed directory",
+    );
+    await expect(readFile.invoke({})).rejects.toThrow();
+  });
+
+  it("lists directories", async () => {
+    const listFiles = await getTool("list_files");
+    expect(await listFiles.invoke({})).toBe("docs/\nnode_modules/\nnotes.txt");
+    expect(await listFiles.invoke({ path: "docs" })).toBe("plan.md");
+    await expect(listFiles.invoke({ path: "notes.txt" })).rejects.toThrow(
+      "ENOTDIR",
+    );
+    await expect(listFiles.invoke({ path: ".." })).rejects.toThrow(
+      "outside the allowed directory",
+    );
+  });
+
+  it("searches file contents, skipping ignored directories", async () => {
+    const grepFiles = await getTool("grep_files");
+    const matches = (await grepFiles.invoke({ pattern: "todo" })).split("\n");
+    expect(matches.sort()).toEqual([
+      "docs/plan.md:2: TODO: ship it",
+      "notes.txt:1: todo: write tests",
+    ]);
+    expect(
+      await grepFiles.invoke({ pattern: "todo", caseSensitive: true }),
+    ).toBe("notes.txt:1: todo: write tests");
+    expect(await grepFiles.invoke({ pattern: "ship", path: "docs" })).toBe(
+      "docs/plan.md:2: TODO: ship it",
+    );
+    expect(await grepFiles.invoke({ pattern: "nothing here" })).toBe(
+      "No matches found.",
+    );
+  });
+
+  it("matches text literally and rejects paths outside the root", async () => {
+    const grepFiles = await getTool("grep_files");
+    expect(await grepFiles.invoke({ pattern: "t.do" })).toBe(
+      "No matches found.",
+    );
+    expect(await grepFiles.invoke({ pattern: "(a+)+$" })).toBe(
+      "No matches found.",
+    );
+    await expect(grepFiles.invoke({ pattern: "" })).rejects.toThrow();
+    await expect(
+      grepFiles.invoke({ pattern: "TODO", path: ".." }),
+    ).rejects.toThrow("outside the allowed directory");
+  });
+});
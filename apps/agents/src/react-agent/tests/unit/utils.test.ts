@@ -0,0 +1,94 @@
+import { describe, it, expect } from "@jest/globals";
+import { AIMessage } from "@langchain/core/messages";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { parseEditedArgs } from "../../../shared/interrupts.js";
+import { resolveSandboxedPath } from "../../../shared/sandbox.js";
+import { evaluateExpression, getMessageText } from "../../utils.js";
+
+describe("getMessageText", () => {
+  it("joins text blocks and skips other content", () => {
+    const message = new AIMessage({
+      content: [
+        { type: "text", text: "The answer " },
+        { type: "image_url", image_url: "https://example.com/a.png" },
+        { type: "text", text: "is 4." },
+      ],
+    });
+    expect(getMessageText(message)).toBe("The answer is 4.");
+    expect(getMessageText(new AIMessage("Plain"))).toBe("Plain");
+  });
+});
+
+describe("parseEditedArgs", () => {
+  it("restores non-string arguments edited as strings", () => {
+    const result = parseEditedArgs(
+      { query: "weather", maxResults: 3, filters: { site: "a.com" } },
+      { query: "weather in SF", maxResults: "5", filters: '{"site":"b.com"}' },
+    );
+    expect(result).toEqual({
+      query: "weather in SF",
+      maxResults: 5,
+      filters: { site: "b.com" },
+    });
+  });
+
+  it("keeps string arguments and unparseable values as-is", () => {
+    const result = parseEditedArgs(
+      { query: "42", count: 1 },
+      { query: "43", count: "not a number" },
+    );
+    expect(result).toEqual({ query: "43", count: "not a number" });
+  });
+});
+
+describe("evaluateExpression", () => {
+  it("respects operator precedence and parentheses", () => {
+    expect(evaluateExpression("2 + 3 * 4")).toBe(14);
+    expect(evaluateExpression("(2 + 3) * 4")).toBe(20);
+    expect(evaluateExpression("2 ^ 3 ^ 2")).toBe(512);
+    expect(evaluateExpression("-2 ^ 2")).toBe(-4);
+  });
+
+  it("supports constants and functions", () => {
+    expect(evaluateExpression("sqrt(16) + max(1, 5, 3)")).toBe(9);
+    expect(evaluateExpression("round(pi * 100) / 100")).toBe(3.14);
+  });
+
+  it("rejects anything that is not arithmetic", () => {
+    expect(() => evaluateExpression("process.exit()")).toThrow();
+    expect(() => evaluateExpression("2 +")).toThrow();
+    expect(() => evaluateExpression("(1 + 2")).toThrow();
+  });
+});
+
+describe("resolveSandboxedPath", () => {
+  it("allows names that start with two dots", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "sandbox-"));
+    await fs.writeFile(path.join(root, "..notes"), "");
+    expect(await resolveSandboxedPath(root, "..notes")).toBe(
+      path.join(await fs.realpath(root), "..notes"),
+    );
+  });
+
+  it("rejects paths and links that leave the root", async () => {
+    const parent = await fs.mkdtemp(path.join(os.tmpdir(), "sandbox-"));
+    const root = path.join(parent, "root");
+    await fs.mkdir(root);
+    await fs.writeFile(path.join(parent, "secret.txt"), "");
+    await fs.symlink(path.join(parent, "secret.txt"), path.join(root, "link"));
+
+    for (const escape of ["..", "../secret.txt", "link", parent]) {
+      await expect(resolveSandboxedPath(root, escape)).rejects.toThrow(
+        "outside the allowed directory",
+      );
+    }
+  });
+
+  it("rejects every path when no root is configured", async () => {
+    await expect(resolveSandboxedPath("", ".")).rejects.toThrow(
+      "No directory is configured",
+    );
+  });
+});
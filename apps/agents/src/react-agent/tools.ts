@@ -2,22 +2,394 @@
  * This file defines the tools available to the ReAct agent.
  * Tools are functions that the agent can use to interact with external systems or perform specific tasks.
  */
-import { TavilySearchResults } from "@langchain/community/tools/tavily_search";
+import fs from "fs/promises";
+import path from "path";
+import { StructuredToolInterface, tool } from "@langchain/core/tools";
+import { z } from "zod";
+
+import { resolveSandboxedPath } from "../shared/sandbox.js";
+import { ensureConfiguration } from "./configuration.js";
+import { ToolRetryPolicy } from "./execution.js";
+import { loadMcpTools } from "./mcp.js";
+import { makeSearchProvider } from "./search.js";
+import { evaluateExpression } from "./utils.js";
+
+type Configuration = ReturnType<typeof ensureConfiguration>;
+
+/** The most bytes the `read_file` tool reads from a file. */
+const MAX_FILE_BYTES = 100_000;
+
+/** Maximum number of matching lines returned by `grep_files`. */
+const MAX_GREP_MATCHES = 50;
+
+/** Directories skipped when walking the sandbox. */
+const IGNORED_DIRECTORIES = new Set([".git", "node_modules", "dist"]);
+
+/** Tools that read files under `AGENT_FILE_ROOT`. */
+const FILE_TOOLS = ["read_file", "list_files", "grep_files"];
+
+/**
+ * The directory the file tools are sandboxed to. It is set by the deployment,
+ * never by a run's configuration, so callers cannot widen the sandbox.
+ */
+function getFileRoot(): string {
+  return process.env.AGENT_FILE_ROOT ?? "";
+}
+
+/**
+ * The retry policy of the tools that only read: they can be called again, and
+ * those that stop when aborted again after a timeout.
+ */
+const READ_ONLY = { idempotent: true } satisfies ToolRetryPolicy;
+const READ_ONLY_ABORTABLE = {
+  idempotent: true,
+  abortable: true,
+} satisfies ToolRetryPolicy;
+
+/**
+ * Web search tool backed by the configured search provider.
+ * Results are returned as a JSON list of `{ title, url, content, score }`.
+ */
+function makeWebSearch(configuration: Configuration) {
+  const search = makeSearchProvider(configuration);
+  return tool(
+    async ({ query }, config) =>
+      JSON.stringify(await search(query, config.signal)),
+    {
+      name: "web_search",
+      description:
+        "A search engine for comprehensive, accurate, and trusted results. Useful for when you need to answer questions about current events. Input should be a search query.",
+      schema: z.object({
+        query: z.string().describe("The search query."),
+      }),
+      // The Tavily client does not stop its request when aborted.
+      metadata:
+        configuration.searchProvider === "tavily"
+          ? READ_ONLY
+          : READ_ONLY_ABORTABLE,
+    },
+  );
+}
+
+/**
+ * Read a text file under the file root. Only the first `MAX_FILE_BYTES` are
+ * read, however large the file is.
+ */
+function makeReadFile() {
+  return tool(
+    async ({ path: filePath }, config) => {
+      const target = await resolveSandboxedPath(getFileRoot(), filePath);
+      const file = await fs.open(target, "r");
+      try {
+        const { size } = await file.stat();
+        config.signal?.throwIfAborted();
+        const buffer = Buffer.alloc(Math.min(size, MAX_FILE_BYTES));
+        const { bytesRead } = await file.read(buffer, 0, buffer.length, 0);
+        const content = buffer.subarray(0, bytesRead).toString("utf-8");
+        if (size > MAX_FILE_BYTES) {
+          return `${content}\n... [truncated, ${size} bytes total]`;
+        }
+        return content;
+      } finally {
+        await file.close();
+      }
+    },
+    {
+      name: "read_file",
+      description:
+        "Read the contents of a text file. Paths are relative to the workspace root.",
+      schema: z.object({
+        path: z.string().describe("Path of the file, relative to the root."),
+      }),
+      metadata: READ_ONLY_ABORTABLE,
+    },
+  );
+}
 
 /**
- * Tavily search tool configuration
- * This tool allows the agent to perform web searches using the Tavily API.
+ * List the entries of a directory under the file root.
  */
-const searchTavily = new TavilySearchResults({
-  maxResults: 3,
-});
+function makeListFiles() {
+  return tool(
+    async ({ path: dirPath }) => {
+      const target = await resolveSandboxedPath(getFileRoot(), dirPath);
+      const entries = await fs.readdir(target, { withFileTypes: true });
+      return entries
+        .map((entry) => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+        .sort()
+        .join("\n");
+    },
+    {
+      name: "list_files",
+      description:
+        "List the files and directories in a directory. Directories end with '/'.",
+      schema: z.object({
+        path: z
+          .string()
+          .default(".")
+          .describe("Directory to list, relative to the root."),
+      }),
+      metadata: READ_ONLY,
+    },
+  );
+}
 
 /**
- * Export an array of all available tools
- * Add new tools to this array to make them available to the agent
+ * Recursively yield the files below a directory, skipping ignored folders.
+ */
+async function* walkFiles(dir: string): AsyncGenerator<string> {
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRECTORIES.has(entry.name)) {
+        yield* walkFiles(fullPath);
+      }
+    } else if (entry.isFile()) {
+      yield fullPath;
+    }
+  }
+}
+
+/**
+ * Search file contents under the file root for a piece of text. The text is
+ * matched literally: a regular expression from the model could take
+ * exponential time on some lines.
+ */
+function makeGrepFiles() {
+  return tool(
+    async ({ pattern, path: dirPath, caseSensitive }, config) => {
+      const root = await resolveSandboxedPath(getFileRoot(), ".");
+      const target = await resolveSandboxedPath(getFileRoot(), dirPath);
+      const needle = caseSensitive ? pattern : pattern.toLowerCase();
+      const matches: string[] = [];
+      for await (const file of walkFiles(target)) {
+        config.signal?.throwIfAborted();
+        const stats = await fs.stat(file);
+        if (stats.size > MAX_FILE_BYTES) {
+          continue;
+        }
+        const lines = (await fs.readFile(file, "utf-8")).split("\n");
+        for (const [index, line] of lines.entries()) {
+          if ((caseSensitive ? line : line.toLowerCase()).includes(needle)) {
+            matches.push(
+              `${path.relative(root, file)}:${index + 1}: ${line.trim()}`,
+            );
+            if (matches.length >= MAX_GREP_MATCHES) {
+              return `${matches.join("\n")}\n... [stopped after ${MAX_GREP_MATCHES} matches]`;
+            }
+          }
+        }
+      }
+      return matches.length ? matches.join("\n") : "No matches found.";
+    },
+    {
+      name: "grep_files",
+      description:
+        "Search the contents of files for lines containing a piece of text. Returns 'path:line: text' for each match.",
+      schema: z.object({
+        pattern: z
+          .string()
+          .min(1)
+          .describe("Text to search for, matched literally."),
+        path: z
+          .string()
+          .default(".")
+          .describe("Directory to search, relative to the root."),
+        caseSensitive: z
+          .boolean()
+          .default(false)
+          .describe("Whether the match is case sensitive."),
+      }),
+      metadata: READ_ONLY_ABORTABLE,
+    },
+  );
+}
+
+/**
+ * Evaluate arithmetic expressions without executing arbitrary code.
+ */
+function makeCalculator() {
+  return tool(
+    async ({ expression }) => {
+      const result = evaluateExpression(expression);
+      if (!Number.isFinite(result)) {
+        throw new Error(`Expression did not produce a finite number`);
+      }
+      return String(result);
+    },
+    {
+      name: "calculator",
+      description:
+        "Evaluate an arithmetic expression. Supports + - * / % ^, parentheses, pi, e, and functions such as sqrt, abs, round, floor, ceil, min, max, pow, log, ln, exp, sin, cos and tan.",
+      schema: z.object({
+        expression: z
+          .string()
+          .describe("The expression to evaluate, e.g. '2 * (3 + sqrt(16))'."),
+      }),
+      metadata: READ_ONLY,
+    },
+  );
+}
+
+const MILLISECONDS_PER_UNIT = {
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  weeks: 7 * 24 * 60 * 60 * 1000,
+};
+
+function parseDate(value: string | undefined): Date {
+  const date = value ? new Date(value) : new Date();
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return date;
+}
+
+function formatDate(date: Date, timeZone?: string): string {
+  if (!timeZone) {
+    return date.toISOString();
+  }
+  return `${date.toLocaleString("en-US", {
+    timeZone,
+    dateStyle: "full",
+    timeStyle: "long",
+  })} (${date.toISOString()})`;
+}
+
+/**
+ * Date and time arithmetic: current time, adding durations and differences.
+ */
+function makeDateMath() {
+  return tool(
+    async ({ operation, date, otherDate, amount, unit, timeZone }) => {
+      const start = parseDate(date);
+      switch (operation) {
+        case "now":
+          return formatDate(new Date(), timeZone);
+        case "add": {
+          const result = new Date(start);
+          if (unit === "months" || unit === "years") {
+            const months = unit === "years" ? amount * 12 : amount;
+            // Clamp to the end of the target month, e.g. Jan 31 + 1 month.
+            const day = result.getUTCDate();
+            result.setUTCDate(1);
+            result.setUTCMonth(result.getUTCMonth() + months);
+            const daysInMonth = new Date(
+              Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0),
+            ).getUTCDate();
+            result.setUTCDate(Math.min(day, daysInMonth));
+          } else {
+            result.setTime(
+              result.getTime() + amount * MILLISECONDS_PER_UNIT[unit],
+            );
+          }
+          return formatDate(result, timeZone);
+        }
+        case "diff": {
+          const end = parseDate(otherDate);
+          const elapsed = end.getTime() - start.getTime();
+          if (unit === "months" || unit === "years") {
+            const months =
+              (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+              (end.getUTCMonth() - start.getUTCMonth());
+            return `${unit === "years" ? months / 12 : months} ${unit}`;
+          }
+          return `${elapsed / MILLISECONDS_PER_UNIT[unit]} ${unit}`;
+        }
+        default:
+          throw new Error(`Unsupported operation: ${operation}`);
+      }
+    },
+    {
+      name: "date_math",
+      description:
+        "Date and time calculations. 'now' returns the current time, 'add' adds an amount of a unit to a date (use a negative amount to subtract), and 'diff' returns the time from 'date' to 'otherDate' in the given unit.",
+      schema: z.object({
+        operation: z.enum(["now", "add", "diff"]),
+        date: z
+          .string()
+          .optional()
+          .describe("ISO 8601 date to start from. Defaults to now."),
+        otherDate: z
+          .string()
+          .optional()
+          .describe("ISO 8601 date to compare with for 'diff'."),
+        amount: z.number().default(0).describe("Amount to add for 'add'."),
+        unit: z
+          .enum([
+            "seconds",
+            "minutes",
+            "hours",
+            "days",
+            "weeks",
+            "months",
+            "years",
+          ])
+          .default("days"),
+        timeZone: z
+          .string()
+          .optional()
+          .describe("IANA time zone for the output, e.g. 'America/New_York'."),
+      }),
+      metadata: READ_ONLY,
+    },
+  );
+}
+
+/**
+ * Every built-in tool, keyed by the name the model sees.
+ * Tools are created lazily so that a disabled tool never needs its credentials.
  *
  * Note: You can create custom tools by implementing the Tool interface from @langchain/core/tools
- * and add them to this array.
+ * and add them to this map.
  * See https://js.langchain.com/docs/how_to/custom_tools/#tool-function for more information.
  */
-export const TOOLS = [searchTavily];
+const TOOL_FACTORIES: Record<
+  string,
+  (configuration: Configuration) => StructuredToolInterface
+> = {
+  web_search: makeWebSearch,
+  read_file: makeReadFile,
+  list_files: makeListFiles,
+  grep_files: makeGrepFiles,
+  calculator: makeCalculator,
+  date_math: makeDateMath,
+};
+
+/**
+ * Build the tools available for this run: the enabled built-in tools plus the
+ * tools of every configured MCP server.
+ * @param configuration - The agent configuration, which selects the tools.
+ * @returns The tool instances to bind to the model.
+ */
+export async function getTools(
+  configuration: Configuration,
+): Promise<StructuredToolInterface[]> {
+  const unknown = configuration.enabledTools.filter(
+    (name) => !(name in TOOL_FACTORIES),
+  );
+  if (unknown.length) {
+    throw new Error(
+      `Unknown tools in enabledTools: ${unknown.join(", ")}. Available tools: ${Object.keys(TOOL_FACTORIES).join(", ")}`,
+    );
+  }
+  const fileTools = configuration.enabledTools.filter((name) =>
+    FILE_TOOLS.includes(name),
+  );
+  if (fileTools.length && !getFileRoot()) {
+    throw new Error(
+      `${fileTools.join(", ")} need a file root: set the AGENT_FILE_ROOT environment variable to the directory they may read.`,
+    );
+  }
+  const builtInTools = configuration.enabledTools.map((name) =>
+    TOOL_FACTORIES[name](configuration),
+  );
+  const mcpTools = await loadMcpTools(
+    configuration.mcpServers,
+    builtInTools.map((tool) => tool.name),
+  );
+  return [...builtInTools, ...mcpTools];
+}
@@ -1,20 +1,139 @@
-import { initChatModel } from "langchain/chat_models/universal";
+import { BaseMessage, MessageContentText } from "@langchain/core/messages";
 
 /**
- * Load a chat model from a fully specified name.
- * @param fullySpecifiedName - String in the format 'provider/model' or 'provider/account/provider/model'.
- * @returns A Promise that resolves to a BaseChatModel instance.
+ * Get the text of a message, dropping any non-text content blocks.
+ * @param message - The message to read.
+ * @returns The concatenated text content.
  */
-export async function loadChatModel(
-  fullySpecifiedName: string,
-): Promise<ReturnType<typeof initChatModel>> {
-  const index = fullySpecifiedName.indexOf("/");
-  if (index === -1) {
-    // If there's no "/", assume it's just the model
-    return await initChatModel(fullySpecifiedName);
-  } else {
-    const provider = fullySpecifiedName.slice(0, index);
-    const model = fullySpecifiedName.slice(index + 1);
-    return await initChatModel(model, { modelProvider: provider });
+export function getMessageText(message: BaseMessage): string {
+  return typeof message.content === "string"
+    ? message.content
+    : message.content
+        .filter((block): block is MessageContentText => block.type === "text")
+        .map((block) => block.text)
+        .join("");
+}
+
+const MATH_CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+const MATH_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  abs: Math.abs,
+  ceil: Math.ceil,
+  cos: Math.cos,
+  exp: Math.exp,
+  floor: Math.floor,
+  ln: Math.log,
+  log: Math.log10,
+  max: Math.max,
+  min: Math.min,
+  pow: Math.pow,
+  round: Math.round,
+  sin: Math.sin,
+  sqrt: Math.sqrt,
+  tan: Math.tan,
+};
+
+/**
+ * Safely evaluate an arithmetic expression without using `eval`.
+ * Supports numbers, `+ - * / % ^`, parentheses, the constants `pi` and `e`,
+ * and a small set of `Math` functions such as `sqrt(x)` and `max(a, b)`.
+ * @param expression - The expression to evaluate, e.g. `2 * (3 + sqrt(16))`.
+ * @returns The numeric result.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z_]+|\S/gi);
+  if (!tokens) {
+    throw new Error("Expression is empty");
+  }
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) {
+      throw new Error(`Expected "${token}" at token ${position}`);
+    }
+  };
+
+  // expression := term (("+" | "-") term)*
+  function parseExpression(): number {
+    let value = parseTerm();
+    while (peek() === "+" || peek() === "-") {
+      value = next() === "+" ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  }
+
+  // term := factor (("*" | "/" | "%") factor)*
+  function parseTerm(): number {
+    let value = parseFactor();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const operator = next();
+      const right = parseFactor();
+      if (operator === "*") value *= right;
+      else if (operator === "/") value /= right;
+      else value %= right;
+    }
+    return value;
+  }
+
+  // factor := ("-" | "+") factor | power
+  function parseFactor(): number {
+    if (peek() === "-") {
+      next();
+      return -parseFactor();
+    }
+    if (peek() === "+") {
+      next();
+      return parseFactor();
+    }
+    return parsePower();
+  }
+
+  // power := primary ("^" factor)?
+  function parsePower(): number {
+    const base = parsePrimary();
+    if (peek() === "^") {
+      next();
+      return Math.pow(base, parseFactor());
+    }
+    return base;
+  }
+
+  // primary := number | constant | function "(" args ")" | "(" expression ")"
+  function parsePrimary(): number {
+    const token = next();
+    if (token === undefined) {
+      throw new Error("Unexpected end of expression");
+    }
+    if (token === "(") {
+      const value = parseExpression();
+      expect(")");
+      return value;
+    }
+    if (/^\d*\.?\d+/.test(token)) {
+      return Number(token);
+    }
+    const name = token.toLowerCase();
+    if (name in MATH_CONSTANTS) {
+      return MATH_CONSTANTS[name];
+    }
+    if (name in MATH_FUNCTIONS) {
+      expect("(");
+      const args = [parseExpression()];
+      while (peek() === ",") {
+        next();
+        args.push(parseExpression());
+      }
+      expect(")");
+      return MATH_FUNCTIONS[name](...args);
+    }
+    throw new Error(`Unexpected token "${token}"`);
+  }
+
+  const result = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected token "${tokens[position]}"`);
   }
+  return result;
 }
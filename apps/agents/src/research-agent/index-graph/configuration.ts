@@ -2,6 +2,7 @@ import { Annotation } from "@langchain/langgraph";
 import { BaseConfigurationAnnotation } from "../shared/configuration.js";
 import { RunnableConfig } from "@langchain/core/runnables";
 import { ensureBaseConfiguration } from "../shared/configuration.js";
+import { ChunkingStrategy } from "../../shared/chunking.js";
 
 // This file contains sample documents to index, based on the following LangChain and LangGraph documentation pages:
 // - https://python.langchain.com/docs/concepts/
@@ -15,9 +16,28 @@ export const IndexConfigurationAnnotation = Annotation.Root({
   ...BaseConfigurationAnnotation.spec,
 
   /**
-   * Path to a JSON file containing default documents to index.
+   * Path to a file of default documents to index, used when none are given:
+   * a JSON array of documents, or a PDF, Markdown, HTML, CSV, DOCX or text
+   * file.
    */
   docsFile: Annotation<string>,
+
+  /**
+   * How documents are split into chunks before they are embedded:
+   * 'recursive', 'markdown' (by heading first), 'token', or 'none'.
+   */
+  chunkingStrategy: Annotation<ChunkingStrategy>,
+
+  /**
+   * The largest chunk, in characters, or in tokens with the 'token' strategy.
+   */
+  chunkSize: Annotation<number>,
+
+  /**
+   * How much of the end of each chunk the next one repeats, in the same unit
+   * as chunkSize.
+   */
+  chunkOverlap: Annotation<number>,
 });
 
 /**
@@ -36,5 +56,8 @@ export function ensureIndexConfiguration(
   return {
     ...baseConfig,
     docsFile: configurable.docsFile || DEFAULT_DOCS_FILE,
+    chunkingStrategy: configurable.chunkingStrategy || "recursive",
+    chunkSize: configurable.chunkSize ?? 1000,
+    chunkOverlap: configurable.chunkOverlap ?? 200,
   };
 }
@@ -2,9 +2,14 @@
  * This "graph" simply exposes an endpoint for a user to upload docs to be indexed.
  */
 
-import { RunnableConfig } from "@langchain/core/runnables";
-import { StateGraph, END, START } from "@langchain/langgraph";
+import {
+  LangGraphRunnableConfig,
+  StateGraph,
+  END,
+  START,
+} from "@langchain/langgraph";
 import fs from "fs/promises";
+import path from "path";
 
 import { IndexStateAnnotation } from "./state.js";
 import { makeRetriever } from "../shared/retrieval.js";
@@ -13,28 +18,55 @@ import {
   IndexConfigurationAnnotation,
 } from "./configuration.js";
 import { reduceDocs } from "../shared/state.js";
+import { indexDocuments } from "../../shared/indexing.js";
+import { loadFiles } from "../../shared/loaders.js";
 
 async function indexDocs(
   state: typeof IndexStateAnnotation.State,
-  config?: RunnableConfig,
+  config?: LangGraphRunnableConfig,
 ): Promise<typeof IndexStateAnnotation.Update> {
   if (!config) {
     throw new Error("Configuration required to run index_docs.");
   }
+  if (!config.store) {
+    throw new Error("Store not found in configuration");
+  }
 
   const configuration = ensureIndexConfiguration(config);
-  let docs = state.docs;
+  // Files are only read by path inside the deployment's INDEX_FILE_ROOT.
+  const fileRoot = process.env.INDEX_FILE_ROOT ?? "";
+  let docs = [
+    ...state.docs,
+    ...reduceDocs([], await loadFiles(state.files, fileRoot)),
+  ];
 
-  if (!docs.length) {
-    const fileContent = await fs.readFile(configuration.docsFile, "utf-8");
-    const serializedDocs = JSON.parse(fileContent);
-    docs = reduceDocs([], serializedDocs);
+  const deletions = state.deletions;
+  if (!docs.length && !deletions.ids?.length && !deletions.sources?.length) {
+    // The default docs file is a JSON array of documents; any other file is
+    // loaded by its type, from the file root like uploaded paths.
+    if (path.extname(configuration.docsFile).toLowerCase() === ".json") {
+      const fileContent = await fs.readFile(configuration.docsFile, "utf-8");
+      const serializedDocs = JSON.parse(fileContent);
+      docs = reduceDocs([], serializedDocs);
+    } else {
+      docs = reduceDocs(
+        [],
+        await loadFiles([{ path: configuration.docsFile }], fileRoot),
+      );
+    }
   }
 
   const retriever = await makeRetriever(config);
-  await retriever.addDocuments(docs);
+  const report = await indexDocuments({
+    docs,
+    deletions,
+    vectorStore: retriever.vectorStore,
+    store: config.store,
+    namespace: ["index_records"],
+    chunking: configuration,
+  });
 
-  return { docs: "delete" };
+  return { docs: "delete", files: "delete", deletions: "delete", report };
 }
 
 // Define the graph
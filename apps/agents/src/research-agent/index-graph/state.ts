@@ -1,6 +1,8 @@
 import { Annotation } from "@langchain/langgraph";
 import { Document } from "@langchain/core/documents";
 import { reduceDocs } from "../shared/state.js";
+import { IndexDeletions, IndexReport } from "../../shared/indexing.js";
+import { FileInput } from "../../shared/loaders.js";
 
 /**
  * Represents the state for document indexing and retrieval.
@@ -20,6 +22,30 @@ export const IndexStateAnnotation = Annotation.Root({
     default: () => [],
     reducer: reduceDocs,
   }),
+
+  /**
+   * Raw files to load and index alongside `docs`: local paths or
+   * base64-encoded uploads in PDF, Markdown, HTML, CSV, DOCX or text format.
+   */
+  files: Annotation<FileInput[], FileInput[] | "delete">({
+    reducer: (_existing, files) => (files === "delete" ? [] : files),
+    default: () => [],
+  }),
+
+  /**
+   * Documents to delete from the index, by id or by `source` metadata.
+   */
+  deletions: Annotation<IndexDeletions, IndexDeletions | "delete">({
+    reducer: (_existing, deletions) =>
+      deletions === "delete" ? {} : deletions,
+    default: () => ({}),
+  }),
+
+  /**
+   * Which documents the last index run added, updated, left unchanged or
+   * deleted.
+   */
+  report: Annotation<IndexReport | undefined>,
 });
 
 export type IndexStateType = typeof IndexStateAnnotation.State;
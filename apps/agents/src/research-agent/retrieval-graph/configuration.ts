@@ -23,15 +23,17 @@ export const AgentConfigurationAnnotation = Annotation.Root({
   // models
   /**
    * The language model used for processing and refining queries.
-   * Should be in the form: provider/model-name.
+   * Should be in the form: provider/model-name. A list of models fails over
+   * to the next on rate limits and provider errors.
    */
-  queryModel: Annotation<string>,
+  queryModel: Annotation<string | string[]>,
 
   /**
    * The language model used for generating responses.
-   * Should be in the form: provider/model-name.
+   * Should be in the form: provider/model-name. A list of models fails over
+   * to the next on rate limits and provider errors.
    */
-  responseModel: Annotation<string>,
+  responseModel: Annotation<string | string[]>,
 
   // prompts
   /**
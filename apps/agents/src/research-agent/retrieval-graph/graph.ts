@@ -13,7 +13,8 @@ import {
 } from "./configuration.js";
 import { graph as researcherGraph } from "./researcher-graph/graph.js";
 import { AgentStateAnnotation, InputStateAnnotation } from "./state.js";
-import { formatDocs, loadChatModel } from "../shared/utils.js";
+import { formatDocs } from "../shared/utils.js";
+import { loadChatModel } from "../../shared/models.js";
 
 async function analyzeAndRouteQuery(
   state: typeof AgentStateAnnotation.State,
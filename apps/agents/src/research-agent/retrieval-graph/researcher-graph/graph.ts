@@ -11,7 +11,7 @@ import { RunnableConfig } from "@langchain/core/runnables";
 import { ensureAgentConfiguration } from "../configuration.js";
 import { QueryStateAnnotation, ResearcherStateAnnotation } from "./state.js";
 import { makeRetriever } from "../../shared/retrieval.js";
-import { loadChatModel } from "../../shared/utils.js";
+import { loadChatModel } from "../../../shared/models.js";
 
 async function generateQueries(
   state: typeof ResearcherStateAnnotation.State,
@@ -1,9 +1,6 @@
 import { BaseMessage } from "@langchain/core/messages";
 import { Document } from "@langchain/core/documents";
 
-import { BaseChatModel } from "@langchain/core/language_models/chat_models";
-import { initChatModel } from "langchain/chat_models/universal";
-
 export function getMessageText(msg: BaseMessage): string {
   /** Get the text content of a message. */
   const content = msg.content;
@@ -36,22 +33,3 @@ export function formatDocs(docs?: Document[]): string {
   const formatted = docs.map(formatDoc).join("\n");
   return `<documents>\n${formatted}\n</documents>`;
 }
-
-/**
- * Load a chat model from a fully specified name.
- * @param fullySpecifiedName - String in the format 'provider/model' or 'provider/account/provider/model'.
- * @returns A Promise that resolves to a BaseChatModel instance.
- */
-export async function loadChatModel(
-  fullySpecifiedName: string,
-): Promise<BaseChatModel> {
-  const index = fullySpecifiedName.indexOf("/");
-  if (index === -1) {
-    // If there's no "/", assume it's just the model
-    return await initChatModel(fullySpecifiedName);
-  } else {
-    const provider = fullySpecifiedName.slice(0, index);
-    const model = fullySpecifiedName.slice(index + 1);
-    return await initChatModel(model, { modelProvider: provider });
-  }
-}
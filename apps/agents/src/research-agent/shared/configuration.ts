@@ -20,10 +20,11 @@ export const BaseConfigurationAnnotation = Annotation.Root({
 
   /**
    * The vector store provider to use for retrieval.
-   * Options are 'elastic', 'elastic-local', 'pinecone', or 'mongodb'.
+   * Options are 'elastic', 'elastic-local', 'pinecone', 'mongodb', or 'local'.
+   * 'local' keeps vectors in a file, `LOCAL_VECTOR_STORE_PATH`, with no service to run.
    */
   retrieverProvider: Annotation<
-    "elastic" | "elastic-local" | "pinecone" | "mongodb"
+    "elastic" | "elastic-local" | "pinecone" | "mongodb" | "local"
   >,
 
   /**
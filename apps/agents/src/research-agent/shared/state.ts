@@ -1,5 +1,5 @@
 import { Document } from "@langchain/core/documents";
-import { v4 as uuidv4 } from "uuid";
+import { getDocumentId } from "../../shared/indexing.js";
 
 /**
  * Reduces the document array based on the provided new documents or actions.
@@ -25,7 +25,7 @@ export function reduceDocs(
   const existingIds = new Set(existingList.map((doc) => doc.metadata?.uuid));
 
   if (typeof newDocs === "string") {
-    const docId = uuidv4();
+    const docId = getDocumentId({ pageContent: newDocs });
     return [
       ...existingList,
       { pageContent: newDocs, metadata: { uuid: docId } },
@@ -33,15 +33,24 @@ export function reduceDocs(
   }
 
   const newList: Document[] = [];
+  const seen = new Map<string, number>();
   if (Array.isArray(newDocs)) {
     for (const item of newDocs) {
       if (typeof item === "string") {
-        const itemId = uuidv4();
+        const itemId = getDocumentId({ pageContent: item }, seen);
         newList.push({ pageContent: item, metadata: { uuid: itemId } });
         existingIds.add(itemId);
       } else if (typeof item === "object") {
         const metadata = (item as Document).metadata ?? {};
-        const itemId = metadata.uuid ?? uuidv4();
+        const itemId =
+          metadata.uuid ??
+          getDocumentId(
+            {
+              pageContent: "pageContent" in item ? item.pageContent : "",
+              metadata,
+            },
+            seen,
+          );
 
         if (!existingIds.has(itemId)) {
           if ("pageContent" in item) {
@@ -7,6 +7,8 @@ import {
   QUERY_SYSTEM_PROMPT_TEMPLATE,
 } from "./prompts.js";
 import { Annotation } from "@langchain/langgraph";
+import { ChunkingStrategy } from "../shared/chunking.js";
+import { ContextStrategy } from "../shared/context.js";
 
 /**
  * typeof ConfigurationAnnotation.State class for indexing and retrieval operations.
@@ -28,10 +30,11 @@ export const IndexConfigurationAnnotation = Annotation.Root({
 
   /**
    * The vector store provider to use for retrieval.
-   * Options are 'elastic', 'elastic-local', 'pinecone', or 'mongodb'.
+   * Options are 'elastic', 'elastic-local', 'pinecone', 'mongodb', or 'local'.
+   * 'local' keeps vectors in a file, `LOCAL_VECTOR_STORE_PATH`, with no service to run.
    */
   retrieverProvider: Annotation<
-    "elastic" | "elastic-local" | "pinecone" | "mongodb"
+    "elastic" | "elastic-local" | "pinecone" | "mongodb" | "local"
   >,
 
   /**
@@ -39,6 +42,23 @@ export const IndexConfigurationAnnotation = Annotation.Root({
    */
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   searchKwargs: Annotation<Record<string, any>>,
+
+  /**
+   * How documents are split into chunks before they are embedded:
+   * 'recursive', 'markdown' (by heading first), 'token', or 'none'.
+   */
+  chunkingStrategy: Annotation<ChunkingStrategy>,
+
+  /**
+   * The largest chunk, in characters, or in tokens with the 'token' strategy.
+   */
+  chunkSize: Annotation<number>,
+
+  /**
+   * How much of the end of each chunk the next one repeats, in the same unit
+   * as chunkSize.
+   */
+  chunkOverlap: Annotation<number>,
 });
 
 /**
@@ -59,6 +79,9 @@ export function ensureIndexConfiguration(
       configurable.embeddingModel || "openai/text-embedding-3-small",
     retrieverProvider: configurable.retrieverProvider || "elastic",
     searchKwargs: configurable.searchKwargs || {},
+    chunkingStrategy: configurable.chunkingStrategy || "recursive",
+    chunkSize: configurable.chunkSize ?? 1000,
+    chunkOverlap: configurable.chunkOverlap ?? 200,
   };
 }
 
@@ -74,8 +97,9 @@ export const ConfigurationAnnotation = Annotation.Root({
 
   /**
    * The language model used for generating responses. Should be in the form: provider/model-name.
+   * A list of models fails over to the next on rate limits and provider errors.
    */
-  responseModel: Annotation<string>,
+  responseModel: Annotation<string | string[]>,
 
   /**
    * The system prompt used for processing and refining queries.
@@ -84,8 +108,21 @@ export const ConfigurationAnnotation = Annotation.Root({
 
   /**
    * The language model used for processing and refining queries. Should be in the form: provider/model-name.
+   * A list of models fails over to the next on rate limits and provider errors.
+   */
+  queryModel: Annotation<string | string[]>,
+
+  /**
+   * The token budget for each response. Longer conversations are shortened
+   * with `contextStrategy`. Zero disables the limit.
+   */
+  maxContextTokens: Annotation<number>,
+
+  /**
+   * How conversations over `maxContextTokens` are shortened: 'trim' drops the
+   * oldest turns, 'summarize' folds them into a running summary.
    */
-  queryModel: Annotation<string>,
+  contextStrategy: Annotation<ContextStrategy>,
 });
 
 /**
@@ -112,5 +149,7 @@ export function ensureConfiguration(
     querySystemPromptTemplate:
       configurable.querySystemPromptTemplate || QUERY_SYSTEM_PROMPT_TEMPLATE,
     queryModel: configurable.queryModel || "anthropic/claude-3-5-haiku-latest",
+    maxContextTokens: configurable.maxContextTokens ?? 100_000,
+    contextStrategy: configurable.contextStrategy || "summarize",
   };
 }
@@ -5,9 +5,11 @@ import {
   ensureConfiguration,
 } from "./configuration.js";
 import { StateAnnotation, InputStateAnnotation } from "./state.js";
-import { formatDocs, getMessageText, loadChatModel } from "./utils.js";
+import { formatDocs, getMessageText } from "./utils.js";
 import { z } from "zod";
 import { makeRetriever } from "./retrieval.js";
+import { prepareContext } from "../shared/context.js";
+import { loadChatModel } from "../shared/models.js";
 // Define the function that calls the model
 
 const SearchQuery = z.object({
@@ -71,13 +73,22 @@ async function respond(
   const systemMessage = configuration.responseSystemPromptTemplate
     .replace("{retrievedDocs}", retrievedDocs)
     .replace("{systemTime}", new Date().toISOString());
-  const messageValue = [
-    { role: "system", content: systemMessage },
-    ...state.messages,
-  ];
-  const response = await model.invoke(messageValue);
+  // Fit long threads into the context window.
+  const context = await prepareContext({
+    systemPrompt: systemMessage,
+    messages: state.messages,
+    summary: state.summary,
+    modelName: configuration.responseModel,
+    model,
+    maxContextTokens: configuration.maxContextTokens,
+    strategy: configuration.contextStrategy,
+  });
+  const response = await model.invoke(context.messages);
   // We return a list, because this will get added to the existing list
-  return { messages: [response] };
+  return {
+    messages: [response],
+    ...(context.summary && { summary: context.summary }),
+  };
 }
 
 // Lay out the nodes and edges to define a graph
@@ -4,10 +4,12 @@
 
 import { Document } from "@langchain/core/documents";
 import { RunnableConfig } from "@langchain/core/runnables";
-import { StateGraph } from "@langchain/langgraph";
+import { LangGraphRunnableConfig, StateGraph } from "@langchain/langgraph";
 
-import { IndexStateAnnotation } from "./state.js";
+import { IndexStateAnnotation, reduceDocs } from "./state.js";
 import { makeRetriever } from "./retrieval.js";
+import { indexDocuments } from "../shared/indexing.js";
+import { loadFiles } from "../shared/loaders.js";
 import {
   ensureIndexConfiguration,
   IndexConfigurationAnnotation,
@@ -29,17 +31,33 @@ function ensureDocsHaveUserId(
 
 async function indexDocs(
   state: typeof IndexStateAnnotation.State,
-  config?: RunnableConfig,
+  config?: LangGraphRunnableConfig,
 ): Promise<typeof IndexStateAnnotation.Update> {
   if (!config) {
     throw new Error("ConfigurationAnnotation required to run index_docs.");
   }
-  const docs = state.docs;
+  if (!config.store) {
+    throw new Error("Store not found in configuration");
+  }
+  const configuration = ensureIndexConfiguration(config);
+  // Files are only read by path inside the deployment's INDEX_FILE_ROOT.
+  const fileRoot = process.env.INDEX_FILE_ROOT ?? "";
+  const docs = [
+    ...state.docs,
+    ...reduceDocs([], await loadFiles(state.files, fileRoot)),
+  ];
   const retriever = await makeRetriever(config);
   const stampedDocs = ensureDocsHaveUserId(docs, config);
 
-  await retriever.addDocuments(stampedDocs);
-  return { docs: "delete" };
+  const report = await indexDocuments({
+    docs: stampedDocs,
+    deletions: state.deletions,
+    vectorStore: retriever.vectorStore,
+    store: config.store,
+    namespace: ["index_records", configuration.userId],
+    chunking: configuration,
+  });
+  return { docs: "delete", files: "delete", deletions: "delete", report };
 }
 
 // Define a new graph
@@ -8,8 +8,11 @@ import { MongoClient } from "mongodb";
 import { ensureConfiguration } from "./configuration.js";
 import { Pinecone as PineconeClient } from "@pinecone-database/pinecone";
 import { Embeddings } from "@langchain/core/embeddings";
-import { CohereEmbeddings } from "@langchain/cohere";
-import { OpenAIEmbeddings } from "@langchain/openai";
+import { makeTextEmbeddings } from "../shared/embeddings.js";
+import {
+  DEFAULT_LOCAL_VECTOR_STORE_PATH,
+  LocalVectorStore,
+} from "../shared/local-vector-store.js";
 
 async function makeElasticRetriever(
   configuration: ReturnType<typeof ensureConfiguration>,
@@ -106,27 +109,21 @@ async function makeMongoDBRetriever(
   return vectorStore.asRetriever({ filter: searchKwargs });
 }
 
-function makeTextEmbeddings(modelName: string): Embeddings {
-  /**
-   * Connect to the configured text encoder.
-   */
-  const index = modelName.indexOf("/");
-  let provider, model;
-  if (index === -1) {
-    model = modelName;
-    provider = "openai"; // Assume openai if no provider included
-  } else {
-    provider = modelName.slice(0, index);
-    model = modelName.slice(index + 1);
-  }
-  switch (provider) {
-    case "openai":
-      return new OpenAIEmbeddings({ model });
-    case "cohere":
-      return new CohereEmbeddings({ model });
-    default:
-      throw new Error(`Unsupported embedding provider: ${provider}`);
-  }
+async function makeLocalRetriever(
+  configuration: ReturnType<typeof ensureConfiguration>,
+  embeddingModel: Embeddings,
+): Promise<VectorStoreRetriever> {
+  const vectorStore = await LocalVectorStore.load(embeddingModel, {
+    path:
+      process.env.LOCAL_VECTOR_STORE_PATH || DEFAULT_LOCAL_VECTOR_STORE_PATH,
+  });
+  const searchKwargs = configuration.searchKwargs || {};
+  const filter = {
+    ...searchKwargs,
+    user_id: configuration.userId,
+  };
+
+  return vectorStore.asRetriever({ filter });
 }
 
 export async function makeRetriever(
@@ -148,6 +145,8 @@ export async function makeRetriever(
       return makePineconeRetriever(configuration, embeddingModel);
     case "mongodb":
       return makeMongoDBRetriever(configuration, embeddingModel);
+    case "local":
+      return makeLocalRetriever(configuration, embeddingModel);
     default:
       throw new Error(
         `Unrecognized retrieverProvider in configuration: ${configuration.retrieverProvider}`,
@@ -1,7 +1,13 @@
 import { Document } from "@langchain/core/documents";
 import { BaseMessage } from "@langchain/core/messages";
 import { Annotation, MessagesAnnotation } from "@langchain/langgraph";
-import { v4 as uuidv4 } from "uuid";
+import { ContextAnnotation } from "../shared/context.js";
+import {
+  getDocumentId,
+  IndexDeletions,
+  IndexReport,
+} from "../shared/indexing.js";
+import { FileInput } from "../shared/loaders.js";
 
 /**
  * Reduces the document array based on the provided new documents or actions.
@@ -26,18 +32,22 @@ export function reduceDocs(
   }
   // Supports adding a single string document
   if (typeof newDocs === "string") {
-    const docId = uuidv4();
+    const docId = getDocumentId({ pageContent: newDocs });
     return [{ pageContent: newDocs, metadata: { id: docId }, id: docId }];
   }
   // User can provide "docs" content in a few different ways
   if (Array.isArray(newDocs)) {
     const coerced: Document[] = [];
+    const seen = new Map<string, number>();
     for (const item of newDocs) {
       if (typeof item === "string") {
-        coerced.push({ pageContent: item, metadata: { id: uuidv4() } });
+        coerced.push({
+          pageContent: item,
+          metadata: { id: getDocumentId({ pageContent: item }, seen) },
+        });
       } else if (typeof item === "object") {
         const doc = item as Document;
-        const docId = item?.id || uuidv4();
+        const docId = item?.id || doc.metadata?.id || getDocumentId(doc, seen);
         item.id = docId;
         if (!doc.metadata || !doc.metadata.id) {
           doc.metadata = doc.metadata || {};
@@ -74,6 +84,30 @@ export const IndexStateAnnotation = Annotation.Root({
     reducer: reduceDocs,
     default: () => [],
   }),
+
+  /**
+   * Raw files to load and index alongside `docs`: local paths or
+   * base64-encoded uploads in PDF, Markdown, HTML, CSV, DOCX or text format.
+   */
+  files: Annotation<FileInput[], FileInput[] | "delete">({
+    reducer: (_existing, files) => (files === "delete" ? [] : files),
+    default: () => [],
+  }),
+
+  /**
+   * Documents to delete from the index, by id or by `source` metadata.
+   */
+  deletions: Annotation<IndexDeletions, IndexDeletions | "delete">({
+    reducer: (_existing, deletions) =>
+      deletions === "delete" ? {} : deletions,
+    default: () => ({}),
+  }),
+
+  /**
+   * Which documents the last index run added, updated, left unchanged or
+   * deleted.
+   */
+  report: Annotation<IndexReport | undefined>,
 });
 
 /**
@@ -151,4 +185,10 @@ export const StateAnnotation = Annotation.Root({
    * @type {Document[]}
    */
   retrievedDocs: Annotation<Document[]>,
+
+  /**
+   * The running summary of turns that no longer fit in the context window.
+   * @see ContextAnnotation in ../shared/context.ts
+   */
+  ...ContextAnnotation.spec,
 });
@@ -0,0 +1,193 @@
+/**
+ * Document chunking shared by the index graphs.
+ * Long documents are split into chunks before they are embedded, so each
+ * vector covers a passage rather than a whole page. Every chunk keeps its
+ * document's metadata, plus the id of the document it came from and its
+ * position in it, so answers can cite the original source. Each chunk has
+ * its own id, so chunks retrieved together are not mistaken for one document.
+ */
+import { Document } from "@langchain/core/documents";
+import { RecursiveCharacterTextSplitter } from "langchain/text_splitter";
+import { v4 as uuidv4, v5 as uuidv5 } from "uuid";
+
+import { getTokenizer } from "./context.js";
+
+/**
+ * How documents are split into chunks.
+ * - `recursive`: on paragraphs, then lines, then words, by characters.
+ * - `markdown`: into the sections under each heading first, then as
+ *   `recursive` within a section. Chunks record the headings they fall under
+ *   instead of repeating them.
+ * - `token`: as `recursive`, but sized in tokens of the embedding model.
+ * - `none`: keep each document whole.
+ */
+export type ChunkingStrategy = "recursive" | "markdown" | "token" | "none";
+
+/**
+ * Options for `chunkDocuments`.
+ */
+export interface ChunkingOptions {
+  chunkingStrategy: ChunkingStrategy;
+  /** The largest chunk, in characters, or tokens for `token`. */
+  chunkSize: number;
+  /** How much of the end of each chunk the next one repeats. */
+  chunkOverlap: number;
+  /** The embedding model whose tokenizer sizes `token` chunks. */
+  embeddingModel: string;
+}
+
+/**
+ * Metadata added to every chunk.
+ */
+export interface ChunkMetadata {
+  /** The id of the document the chunk came from. */
+  parent_id: string;
+  /** The chunk's position in its document, from 0. */
+  chunk_index: number;
+  /** How many chunks the document was split into. */
+  chunk_count: number;
+  /** For `markdown`, the headings the chunk falls under, e.g. `Setup > Install`. */
+  headers?: string;
+}
+
+/** The namespace chunk ids are generated in. */
+const CHUNK_ID_NAMESPACE = "6f1c2a9e-3d4b-4c8f-b7e2-0a5d9c1e8f37";
+
+/** Metadata fields holding a document's id, which each chunk gets its own of. */
+const ID_FIELDS = ["id", "uuid"];
+
+/**
+ * Get the id of a document's chunk from the document's id and the chunk's
+ * position in it.
+ */
+export function getChunkId(parentId: string, chunkIndex: number): string {
+  return uuidv5(`${parentId}\n${chunkIndex}`, CHUNK_ID_NAMESPACE);
+}
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Split markdown into the sections under each heading. The heading lines are
+ * left out of the text; each section lists the headings it falls under.
+ */
+export function splitMarkdownSections(
+  text: string,
+): { headers: string[]; text: string }[] {
+  const sections: { headers: string[]; text: string }[] = [];
+  const headers: string[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+  const flush = () => {
+    const section = lines.join("\n").trim();
+    if (section) {
+      sections.push({ headers: [...headers], text: section });
+    }
+    lines = [];
+  };
+  for (const line of text.split("\n")) {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+    }
+    const heading = inFence ? null : line.match(HEADING_PATTERN);
+    if (heading) {
+      flush();
+      headers.splice(heading[1].length - 1);
+      headers[heading[1].length - 1] = heading[2];
+    } else {
+      lines.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+async function makeSplitter(
+  options: ChunkingOptions,
+): Promise<RecursiveCharacterTextSplitter> {
+  const params = {
+    chunkSize: options.chunkSize,
+    chunkOverlap: options.chunkOverlap,
+  };
+  switch (options.chunkingStrategy) {
+    case "markdown":
+      return RecursiveCharacterTextSplitter.fromLanguage("markdown", params);
+    case "token": {
+      const tokenizer = await getTokenizer(options.embeddingModel);
+      return new RecursiveCharacterTextSplitter({
+        ...params,
+        lengthFunction: (text: string) => tokenizer.encode(text).length,
+      });
+    }
+    default:
+      return new RecursiveCharacterTextSplitter(params);
+  }
+}
+
+/**
+ * Split documents into chunks for indexing.
+ * @param docs - The documents to split. A document's id is taken from
+ * `doc.id`, `metadata.id` or `metadata.uuid`, or generated if it has none.
+ * @param options - How to split them.
+ * @param chunkId - Gets a chunk's id from its document's id and its position.
+ * The id is set on the chunk, and replaces the document's `id` or `uuid` in
+ * its metadata.
+ * @returns The chunks, in document order.
+ */
+export async function chunkDocuments(
+  docs: Document[],
+  options: ChunkingOptions,
+  chunkId: (parentId: string, chunkIndex: number) => string = getChunkId,
+): Promise<Document[]> {
+  if (options.chunkOverlap >= options.chunkSize) {
+    throw new Error(
+      `chunkOverlap (${options.chunkOverlap}) must be smaller than chunkSize (${options.chunkSize}).`,
+    );
+  }
+  const splitter =
+    options.chunkingStrategy === "none"
+      ? undefined
+      : await makeSplitter(options);
+
+  const chunked = await Promise.all(
+    docs.map(async (doc) => {
+      const parentId: string =
+        doc.id ?? doc.metadata?.id ?? doc.metadata?.uuid ?? uuidv4();
+      const sections =
+        options.chunkingStrategy === "markdown"
+          ? splitMarkdownSections(doc.pageContent)
+          : [{ headers: [], text: doc.pageContent }];
+      const pieces: { headers: string[]; text: string }[] = [];
+      for (const section of sections) {
+        const texts = splitter
+          ? await splitter.splitText(section.text)
+          : [section.text];
+        pieces.push(
+          ...texts.map((text) => ({ headers: section.headers, text })),
+        );
+      }
+      return pieces.map((piece, i) => {
+        const metadata: ChunkMetadata = {
+          parent_id: parentId,
+          chunk_index: i,
+          chunk_count: pieces.length,
+          ...(piece.headers.length > 0 && {
+            headers: piece.headers.filter(Boolean).join(" > "),
+          }),
+        };
+        const id = chunkId(parentId, i);
+        const ids = Object.fromEntries(
+          ID_FIELDS.filter((field) => field in (doc.metadata ?? {})).map(
+            (field) => [field, id],
+          ),
+        );
+        return new Document({
+          id,
+          pageContent: piece.text,
+          metadata: { ...doc.metadata, ...ids, ...metadata },
+        });
+      });
+    }),
+  );
+  return chunked.flat();
+}
@@ -0,0 +1,304 @@
+/**
+ * Context-window management shared by the agent graphs.
+ * Before each model call the conversation is fitted to a token budget, either
+ * by dropping the oldest turns or by folding them into a running summary kept
+ * in state. Turns are only cut before a user message, so a tool call is never
+ * separated from its result.
+ */
+import { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import {
+  BaseMessage,
+  isAIMessage,
+  SystemMessage,
+} from "@langchain/core/messages";
+import { Runnable } from "@langchain/core/runnables";
+import { Annotation } from "@langchain/langgraph";
+import {
+  getEncodingNameForModel,
+  Tiktoken,
+  TiktokenModel,
+} from "js-tiktoken/lite";
+
+import { SUMMARY_SYSTEM_PROMPT } from "./prompts.js";
+
+/**
+ * How a conversation that outgrows the context window is shortened.
+ * - `trim`: drop the oldest turns.
+ * - `summarize`: fold the oldest turns into a running summary.
+ */
+export type ContextStrategy = "trim" | "summarize";
+
+/**
+ * A summary of the turns that no longer fit in the context window.
+ */
+export interface ConversationSummary {
+  /** The summary text. */
+  content: string;
+  /** ID of the last message the summary covers. */
+  lastMessageId: string;
+}
+
+/**
+ * State channels used by the context manager. Spread the spec into a graph's
+ * state to keep a running summary across runs.
+ */
+export const ContextAnnotation = Annotation.Root({
+  /**
+   * Summary of the oldest turns, sent in place of the messages it covers.
+   */
+  summary: Annotation<ConversationSummary | undefined>,
+});
+
+/** Tokens added per message for the role and formatting. */
+const TOKENS_PER_MESSAGE = 4;
+
+/**
+ * When summarizing, the kept turns are reduced to this share of the budget so
+ * that the next few turns fit without summarizing again.
+ */
+const SUMMARY_TARGET_RATIO = 0.5;
+
+type Encoding = "o200k_base" | "cl100k_base";
+
+const tokenizers = new Map<Encoding, Promise<Tiktoken>>();
+
+async function loadTokenizer(encoding: Encoding): Promise<Tiktoken> {
+  const ranks =
+    encoding === "o200k_base"
+      ? (await import("js-tiktoken/ranks/o200k_base")).default
+      : (await import("js-tiktoken/ranks/cl100k_base")).default;
+  return new Tiktoken(ranks);
+}
+
+/**
+ * Get the tokenizer for a model. OpenAI models use their own encoding; other
+ * providers do not publish theirs, so `cl100k_base` serves as an estimate.
+ */
+export function getTokenizer(modelName: string | string[]): Promise<Tiktoken> {
+  // A fallback chain is counted for its first model.
+  const [primary] = [modelName].flat();
+  const model = primary.slice(primary.lastIndexOf("/") + 1);
+  let encoding: Encoding = "cl100k_base";
+  try {
+    if (getEncodingNameForModel(model as TiktokenModel) === "o200k_base") {
+      encoding = "o200k_base";
+    }
+  } catch {
+    // Not an OpenAI model.
+  }
+  let tokenizer = tokenizers.get(encoding);
+  if (!tokenizer) {
+    tokenizer = loadTokenizer(encoding);
+    tokenizers.set(encoding, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Get the text of a message as the model sees it, including any tool calls.
+ */
+function getMessageText(message: BaseMessage): string {
+  const content =
+    typeof message.content === "string"
+      ? message.content
+      : message.content
+          .map((part) =>
+            part.type === "text" && typeof part.text === "string"
+              ? part.text
+              : JSON.stringify(part),
+          )
+          .join("");
+  const toolCalls =
+    isAIMessage(message) && message.tool_calls?.length
+      ? JSON.stringify(message.tool_calls)
+      : "";
+  return content + toolCalls;
+}
+
+function countMessageTokens(tokenizer: Tiktoken, message: BaseMessage) {
+  return tokenizer.encode(getMessageText(message)).length + TOKENS_PER_MESSAGE;
+}
+
+/**
+ * Count the tokens in a list of messages for the given model.
+ * @param messages - The messages to count.
+ * @param modelName - The model, as `provider/model-name`, or a fallback chain.
+ * @returns The token count, including per-message overhead.
+ */
+export async function countTokens(
+  messages: BaseMessage[],
+  modelName: string | string[],
+): Promise<number> {
+  const tokenizer = await getTokenizer(modelName);
+  return messages.reduce(
+    (total, message) => total + countMessageTokens(tokenizer, message),
+    0,
+  );
+}
+
+function formatSystemPrompt(systemPrompt: string, summary?: string): string {
+  return summary
+    ? `${systemPrompt}\n\n<conversation_summary>\n${summary}\n</conversation_summary>`
+    : systemPrompt;
+}
+
+async function summarize(
+  model: Runnable<BaseLanguageModelInput, BaseMessage>,
+  existing: string | undefined,
+  messages: BaseMessage[],
+): Promise<string> {
+  const transcript = messages
+    .map((message) => `${message._getType()}: ${getMessageText(message)}`)
+    .join("\n\n");
+  const response = await model.invoke(
+    [
+      { role: "system", content: SUMMARY_SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: `<existing_summary>\n${existing ?? ""}\n</existing_summary>\n\n<new_messages>\n${transcript}\n</new_messages>`,
+      },
+    ],
+    // Keep the summary out of the streamed conversation.
+    { tags: ["langsmith:nostream"] },
+  );
+  return getMessageText(response);
+}
+
+/**
+ * Options for `prepareContext`.
+ */
+export interface ContextOptions {
+  /** The system prompt for this call. */
+  systemPrompt: string;
+  /** The full conversation from state. */
+  messages: BaseMessage[];
+  /** The running summary from state, if any. */
+  summary?: ConversationSummary;
+  /** The configured model, as `provider/model-name`, used to count tokens. */
+  modelName: string | string[];
+  /** The chat model used to write summaries. */
+  model: Runnable<BaseLanguageModelInput, BaseMessage>;
+  /** The token budget for the prompt. Zero or less disables the limit. */
+  maxContextTokens: number;
+  /** How to shorten a conversation over budget. */
+  strategy: ContextStrategy;
+}
+
+/**
+ * The messages to send to the model and any state update.
+ */
+export interface PreparedContext {
+  /** The system message followed by the conversation that fits the budget. */
+  messages: BaseMessage[];
+  /** The new running summary, if older turns were summarized. Save it to state. */
+  summary?: ConversationSummary;
+}
+
+/**
+ * Fit a conversation into the model's context window.
+ * Messages already covered by the running summary are replaced by it. If the
+ * rest is still over budget, the oldest whole turns are dropped or summarized.
+ * A single turn that is still too long, such as a long tool loop, keeps its
+ * user message and drops its oldest tool exchanges for this call only.
+ * @param options - The conversation, budget and strategy.
+ * @returns The messages to send and the updated summary, if any.
+ */
+export async function prepareContext(
+  options: ContextOptions,
+): Promise<PreparedContext> {
+  const { systemPrompt, modelName, maxContextTokens, strategy } = options;
+  if (strategy !== "trim" && strategy !== "summarize") {
+    throw new Error(
+      `Unrecognized contextStrategy in configuration: ${strategy}`,
+    );
+  }
+
+  const summarizedIndex = options.summary
+    ? options.messages.findIndex(
+        (message) => message.id === options.summary?.lastMessageId,
+      )
+    : -1;
+  // A summary whose last message is no longer in the thread, e.g. after the
+  // thread was edited, cannot be lined up with the history. It is dropped
+  // rather than sent along with the messages it already covers.
+  const summary = summarizedIndex >= 0 ? options.summary : undefined;
+  const history = options.messages.slice(summarizedIndex + 1);
+  const system = new SystemMessage(
+    formatSystemPrompt(systemPrompt, summary?.content),
+  );
+
+  const tokenizer = await getTokenizer(modelName);
+  const count = (message: BaseMessage) =>
+    countMessageTokens(tokenizer, message);
+  const messageTokens = history.map(count);
+  // tokensFrom[i] is the size of history.slice(i).
+  const tokensFrom = new Array<number>(history.length + 1).fill(0);
+  for (let i = history.length - 1; i >= 0; i -= 1) {
+    tokensFrom[i] = tokensFrom[i + 1] + messageTokens[i];
+  }
+
+  if (
+    maxContextTokens <= 0 ||
+    count(system) + tokensFrom[0] <= maxContextTokens
+  ) {
+    return { messages: [system, ...history] };
+  }
+
+  // Cut before the oldest user message whose turn and later ones fit.
+  const target =
+    strategy === "summarize"
+      ? maxContextTokens * SUMMARY_TARGET_RATIO
+      : maxContextTokens;
+  const turnStarts = history.flatMap((message, index) =>
+    message._getType() === "human" ? [index] : [],
+  );
+  const cut =
+    turnStarts.find((index) => count(system) + tokensFrom[index] <= target) ??
+    turnStarts[turnStarts.length - 1] ??
+    0;
+  const dropped = history.slice(0, cut);
+
+  let updatedSummary: ConversationSummary | undefined;
+  const lastDroppedId = dropped[dropped.length - 1]?.id;
+  if (strategy === "summarize" && lastDroppedId) {
+    updatedSummary = {
+      content: await summarize(options.model, summary?.content, dropped),
+      lastMessageId: lastDroppedId,
+    };
+  }
+  const finalSystem = updatedSummary
+    ? new SystemMessage(
+        formatSystemPrompt(systemPrompt, updatedSummary.content),
+      )
+    : system;
+  const systemTokens = count(finalSystem);
+
+  if (systemTokens + tokensFrom[cut] <= maxContextTokens) {
+    return {
+      messages: [finalSystem, ...history.slice(cut)],
+      summary: updatedSummary,
+    };
+  }
+
+  // The last turn alone is over budget. Keep its user message and resume at
+  // the oldest later message that fits, never at a tool result.
+  const pinned = history[cut]?._getType() === "human" ? [history[cut]] : [];
+  const resumePoints = history.flatMap((message, index) =>
+    index > cut && message._getType() !== "tool" ? [index] : [],
+  );
+  const resume =
+    resumePoints.find(
+      (index) =>
+        systemTokens +
+          (pinned.length ? messageTokens[cut] : 0) +
+          tokensFrom[index] <=
+        maxContextTokens,
+    ) ?? resumePoints[resumePoints.length - 1];
+  return {
+    messages:
+      resume === undefined
+        ? [finalSystem, ...history.slice(cut)]
+        : [finalSystem, ...pinned, ...history.slice(resume)],
+    summary: updatedSummary,
+  };
+}
@@ -0,0 +1,122 @@
+/**
+ * Text embeddings shared by the retrieval graphs: the configured model, by
+ * name, and hashing embeddings that need no network or API key, for tests and
+ * offline runs. Hashing embeddings split text into lowercase words and hash
+ * each into one of `dims` buckets with a sign, so texts sharing words get
+ * similar vectors. The same text always gets the same vector.
+ */
+import { CohereEmbeddings } from "@langchain/cohere";
+import { OllamaEmbeddings } from "@langchain/community/embeddings/ollama";
+import { Embeddings, EmbeddingsParams } from "@langchain/core/embeddings";
+import { OpenAIEmbeddings } from "@langchain/openai";
+
+/** The longest hash vector, well above the dimensions of real models. */
+const MAX_HASH_DIMS = 8192;
+
+/**
+ * Options for `HashEmbeddings`.
+ */
+export interface HashEmbeddingsParams extends EmbeddingsParams {
+  /** The length of each vector. */
+  dims: number;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string.
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export class HashEmbeddings extends Embeddings {
+  dims: number;
+
+  constructor(params: HashEmbeddingsParams) {
+    super(params);
+    if (!Number.isInteger(params.dims) || params.dims <= 0) {
+      throw new Error(
+        `Hash embeddings need a positive whole number of dimensions, got ${params.dims}`,
+      );
+    }
+    if (params.dims > MAX_HASH_DIMS) {
+      throw new Error(
+        `Hash embeddings can have at most ${MAX_HASH_DIMS} dimensions, got ${params.dims}`,
+      );
+    }
+    this.dims = params.dims;
+  }
+
+  /**
+   * Embed a text as its unit-length bag of hashed words.
+   */
+  embedText(text: string): number[] {
+    const vector = new Array<number>(this.dims).fill(0);
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+      const hash = fnv1a(word);
+      // The top bit picks the sign, so unrelated words tend to cancel out.
+      vector[hash % this.dims] += hash & 0x80000000 ? -1 : 1;
+    }
+    // Summed in a loop: spreading a long vector into Math.hypot can overflow
+    // the call stack.
+    let sumOfSquares = 0;
+    for (const value of vector) {
+      sumOfSquares += value * value;
+    }
+    const norm = Math.sqrt(sumOfSquares);
+    return norm ? vector.map((value) => value / norm) : vector;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((document) => this.embedText(document));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embedText(document);
+  }
+}
+
+/**
+ * Connect to the configured text encoder.
+ * @param modelName - `provider/model`, e.g. `openai/text-embedding-3-small`.
+ * Without a provider, OpenAI is assumed. `local/hash-<dims>` gives offline
+ * hashing embeddings, e.g. `local/hash-384`.
+ */
+export function makeTextEmbeddings(modelName: string): Embeddings {
+  const index = modelName.indexOf("/");
+  let provider, model;
+  if (index === -1) {
+    model = modelName;
+    provider = "openai"; // Assume openai if no provider included
+  } else {
+    provider = modelName.slice(0, index);
+    model = modelName.slice(index + 1);
+  }
+  switch (provider) {
+    case "openai":
+      return new OpenAIEmbeddings({ model });
+    case "cohere":
+      return new CohereEmbeddings({ model });
+    case "ollama":
+      // Any server with Ollama's embeddings API will do.
+      return new OllamaEmbeddings({
+        model,
+        baseUrl: process.env.OLLAMA_BASE_URL || "http://localhost:11434",
+      });
+    case "local": {
+      const match = model.match(/^hash-(\d+)$/);
+      if (!match) {
+        throw new Error(
+          `Unsupported local embedding model: ${model}. Use local/hash-<dims>, e.g. local/hash-384.`,
+        );
+      }
+      return new HashEmbeddings({ dims: Number(match[1]) });
+    }
+    default:
+      throw new Error(`Unsupported embedding provider: ${provider}`);
+  }
+}
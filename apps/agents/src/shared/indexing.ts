@@ -0,0 +1,287 @@
+/**
+ * Idempotent indexing shared by the index graphs.
+ * Documents get stable ids, derived from their source, or from their content
+ * when they have none, and each chunk's id is derived from its document's. A
+ * record of every indexed document, with a hash of its content and the ids of
+ * its chunks, is kept in the graph's store. Re-indexing a document then skips
+ * it if it is unchanged, or replaces its chunks if it changed; re-indexing a
+ * source also deletes the documents it no longer has. Documents can be deleted
+ * by id or by source with any retriever provider.
+ */
+import { Document } from "@langchain/core/documents";
+import { VectorStoreInterface } from "@langchain/core/vectorstores";
+import { BaseStore } from "@langchain/langgraph";
+import { createHash } from "crypto";
+import { v5 as uuidv5 } from "uuid";
+
+import { chunkDocuments, ChunkingOptions } from "./chunking.js";
+
+/** The namespace stable document and chunk ids are generated in. */
+const ID_NAMESPACE = "b5d0cd2e-8f3c-4b8e-9a51-6f2b7c0e4d19";
+
+/** Metadata fields holding a document's id, left out of its content hash. */
+const ID_FIELDS = ["id", "uuid"];
+
+/** Page size used to read every matching record. */
+const PAGE_SIZE = 100;
+
+/**
+ * What the store keeps for each indexed document.
+ */
+export interface IndexRecord {
+  source?: string;
+  /** A hash of the document and chunking options when it was indexed. */
+  hash: string;
+  /** The ids of the document's chunks in the vector store. */
+  chunk_ids: string[];
+  indexed_at: string;
+}
+
+/**
+ * Documents to delete from the index.
+ */
+export interface IndexDeletions {
+  /** Document ids, as returned in the index report. */
+  ids?: string[];
+  /** Document sources: every document with this `source` metadata. */
+  sources?: string[];
+}
+
+/**
+ * A document named in an index report.
+ */
+export interface IndexedDocument {
+  id: string;
+  source?: string;
+}
+
+/**
+ * What an index run changed.
+ */
+export interface IndexReport {
+  /** Documents indexed for the first time. */
+  added: IndexedDocument[];
+  /** Documents whose content changed, and whose chunks were replaced. */
+  updated: IndexedDocument[];
+  /** Documents already indexed with the same content, left as they were. */
+  unchanged: IndexedDocument[];
+  deleted: IndexedDocument[];
+}
+
+/**
+ * Get a document's stable id. Documents from the same place, such as the same
+ * file, page or row, get the same id, so re-indexing them updates them;
+ * documents without a source are identified by their content.
+ * @param doc - The document.
+ * @param seen - How often each place was seen so far in the same batch. A
+ * source split into several documents without pages or rows, such as a
+ * scraped web page, numbers them in order.
+ */
+export function getDocumentId(
+  doc: { pageContent: string; metadata?: Record<string, any> },
+  seen?: Map<string, number>,
+): string {
+  const { source, page, row } = doc.metadata ?? {};
+  const key =
+    source !== undefined
+      ? ["source", source, page ?? "", row ?? ""].join("\n")
+      : ["content", doc.pageContent].join("\n");
+  const occurrence = seen?.get(key) ?? 0;
+  seen?.set(key, occurrence + 1);
+  return uuidv5(occurrence ? `${key}\n${occurrence}` : key, ID_NAMESPACE);
+}
+
+/**
+ * Hash a document's content and metadata, except its id, and how it is
+ * chunked, to tell whether it changed since it was indexed. Only the chunking
+ * options are hashed, so a configuration passed as `chunking` does not
+ * re-index every document when an unrelated setting changes.
+ */
+export function hashDocument(doc: Document, chunking: ChunkingOptions): string {
+  const metadata = Object.fromEntries(
+    Object.entries(doc.metadata)
+      .filter(([key]) => !ID_FIELDS.includes(key))
+      .sort(([a], [b]) => a.localeCompare(b)),
+  );
+  const { chunkingStrategy, chunkSize, chunkOverlap, embeddingModel } =
+    chunking;
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        doc.pageContent,
+        metadata,
+        [chunkingStrategy, chunkSize, chunkOverlap, embeddingModel],
+      ]),
+    )
+    .digest("hex");
+}
+
+async function findRecords(
+  store: BaseStore,
+  namespace: string[],
+  filter: Record<string, any>,
+): Promise<{ key: string; value: IndexRecord }[]> {
+  const records: { key: string; value: IndexRecord }[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await store.search(namespace, {
+      filter,
+      limit: PAGE_SIZE,
+      offset,
+    });
+    records.push(
+      ...page
+        // Only the namespace's own records, not those of nested namespaces.
+        .filter((item) => item.namespace.length === namespace.length)
+        .map((item) => ({ key: item.key, value: item.value as IndexRecord })),
+    );
+    if (page.length < PAGE_SIZE) {
+      return records;
+    }
+  }
+}
+
+/**
+ * Options for `indexDocuments`.
+ */
+export interface IndexOptions {
+  /** The documents to add or update. */
+  docs: Document[];
+  /** Documents to delete before indexing. */
+  deletions?: IndexDeletions;
+  vectorStore: VectorStoreInterface;
+  /** The store the index records are kept in. */
+  store: BaseStore;
+  /**
+   * The store namespace of the index records, one per index, e.g. per user.
+   * Chunk ids are derived from it, so indexes sharing a vector store do not
+   * overwrite each other's chunks.
+   */
+  namespace: string[];
+  chunking: ChunkingOptions;
+}
+
+/**
+ * Delete, add and update documents in a vector store, keeping the index
+ * records in step.
+ * @returns Which documents were added, updated, left unchanged or deleted.
+ */
+export async function indexDocuments(
+  options: IndexOptions,
+): Promise<IndexReport> {
+  const { vectorStore, store, namespace } = options;
+  const report: IndexReport = {
+    added: [],
+    updated: [],
+    unchanged: [],
+    deleted: [],
+  };
+
+  // A document given more than once is indexed as its last version.
+  const docs = new Map<string, Document>();
+  const seen = new Map<string, number>();
+  for (const doc of options.docs) {
+    const id = doc.id ?? doc.metadata.id ?? doc.metadata.uuid;
+    docs.set(id ?? getDocumentId(doc, seen), doc);
+  }
+
+  // Re-indexing a source replaces everything indexed from it before, so
+  // documents it no longer has are deleted along with those asked for.
+  const doomed = new Map<string, IndexRecord>();
+  for (const id of options.deletions?.ids ?? []) {
+    const record = await store.get(namespace, id);
+    if (record) {
+      doomed.set(id, record.value as IndexRecord);
+    }
+  }
+  for (const source of options.deletions?.sources ?? []) {
+    for (const { key, value } of await findRecords(store, namespace, {
+      source,
+    })) {
+      doomed.set(key, value);
+    }
+  }
+  const indexedSources = new Set(
+    [...docs.values()]
+      .map((doc) => doc.metadata.source)
+      .filter((source) => source !== undefined),
+  );
+  for (const source of indexedSources) {
+    for (const { key, value } of await findRecords(store, namespace, {
+      source,
+    })) {
+      if (!docs.has(key)) {
+        doomed.set(key, value);
+      }
+    }
+  }
+  if (doomed.size) {
+    const chunkIds = [...doomed.values()].flatMap((record) => record.chunk_ids);
+    if (chunkIds.length) {
+      await vectorStore.delete({ ids: chunkIds });
+    }
+    await Promise.all(
+      [...doomed.keys()].map((key) => store.delete(namespace, key)),
+    );
+    report.deleted = [...doomed].map(([id, record]) => ({
+      id,
+      source: record.source,
+    }));
+  }
+
+  const changed: { id: string; doc: Document; existing: IndexRecord | null }[] =
+    [];
+  for (const [id, doc] of docs) {
+    const existing = (await store.get(namespace, id))?.value as
+      | IndexRecord
+      | undefined;
+    const entry = { id, source: doc.metadata.source };
+    if (existing?.hash === hashDocument(doc, options.chunking)) {
+      report.unchanged.push(entry);
+    } else {
+      changed.push({ id, doc, existing: existing ?? null });
+      (existing ? report.updated : report.added).push(entry);
+    }
+  }
+  if (!changed.length) {
+    return report;
+  }
+
+  const chunks = await chunkDocuments(
+    changed.map(({ id, doc }) => new Document({ ...doc, id })),
+    options.chunking,
+    (parentId, chunkIndex) =>
+      uuidv5([...namespace, parentId, chunkIndex].join("\n"), ID_NAMESPACE),
+  );
+  const chunkIds = chunks.map((chunk) => chunk.id!);
+  if (chunks.length) {
+    await vectorStore.addDocuments(chunks, { ids: chunkIds });
+  }
+
+  // Chunks past the end of a document that got shorter are left over.
+  const newChunkIds = new Set(chunkIds);
+  const stale = changed.flatMap(
+    ({ existing }) =>
+      existing?.chunk_ids.filter((chunkId) => !newChunkIds.has(chunkId)) ?? [],
+  );
+  if (stale.length) {
+    await vectorStore.delete({ ids: stale });
+  }
+
+  const indexedAt = new Date().toISOString();
+  await Promise.all(
+    changed.map(({ id, doc }) => {
+      const record: IndexRecord = {
+        ...(doc.metadata.source !== undefined && {
+          source: doc.metadata.source,
+        }),
+        hash: hashDocument(doc, options.chunking),
+        chunk_ids: chunkIds.filter(
+          (_, i) => chunks[i].metadata.parent_id === id,
+        ),
+        indexed_at: indexedAt,
+      };
+      return store.put(namespace, id, record, false);
+    }),
+  );
+  return report;
+}
@@ -0,0 +1,30 @@
+/**
+ * Helpers for human-in-the-loop interrupts shared by the agent graphs.
+ * Requests follow the `HumanInterrupt` shape the agent inbox renders.
+ */
+
+/**
+ * Restore the types of tool call arguments edited by a human reviewer.
+ * The agent inbox edits every argument as a string, so values that were not
+ * strings originally are parsed back from JSON where possible.
+ * @param originalArgs - The arguments the model proposed.
+ * @param editedArgs - The arguments returned by the reviewer.
+ * @returns The edited arguments with their original types restored.
+ */
+export function parseEditedArgs(
+  originalArgs: Record<string, any>,
+  editedArgs: Record<string, any>,
+): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(editedArgs).map(([key, value]) => {
+      if (typeof value !== "string" || typeof originalArgs[key] === "string") {
+        return [key, value];
+      }
+      try {
+        return [key, JSON.parse(value)];
+      } catch {
+        return [key, value];
+      }
+    }),
+  );
+}
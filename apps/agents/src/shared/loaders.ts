@@ -0,0 +1,268 @@
+/**
+ * File loaders shared by the index graphs.
+ * Raw files, given as local paths or base64-encoded uploads, are turned into
+ * documents ready for chunking: PDFs become a document per page, CSVs a
+ * document per row, and Markdown, HTML, DOCX and text files a single document.
+ * Every document records its `source`, `title` and `file_type`, and its
+ * `page` or `row` where there is one. Files given by path are only read inside
+ * a root directory, since the paths come from run input.
+ */
+import { CSVLoader } from "@langchain/community/document_loaders/fs/csv";
+import { DocxLoader } from "@langchain/community/document_loaders/fs/docx";
+import { PDFLoader } from "@langchain/community/document_loaders/fs/pdf";
+import { Document } from "@langchain/core/documents";
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+import { resolveSandboxedPath } from "./sandbox.js";
+
+/**
+ * A file to index: either a local `path`, or an upload's base64 `data`.
+ */
+export interface FileInput {
+  /** A local file to read, relative to the file root. */
+  path?: string;
+  /** The file's contents, base64-encoded. */
+  data?: string;
+  /**
+   * The uploaded file's name, used as its source and to detect its type. An
+   * upload without one gets a source derived from its content.
+   */
+  filename?: string;
+  /** The file's MIME type, used when the name does not show its type. */
+  mimeType?: string;
+}
+
+export type FileType = "pdf" | "markdown" | "html" | "csv" | "docx" | "text";
+
+const EXTENSION_TYPES: Record<string, FileType> = {
+  ".pdf": "pdf",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".html": "html",
+  ".htm": "html",
+  ".csv": "csv",
+  ".docx": "docx",
+  ".txt": "text",
+  ".text": "text",
+};
+
+const MIME_TYPES: Record<string, FileType> = {
+  "application/pdf": "pdf",
+  "text/markdown": "markdown",
+  "text/html": "html",
+  "text/csv": "csv",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
+    "docx",
+  "text/plain": "text",
+};
+
+/**
+ * Work out a file's type from its name, then its MIME type, then its first
+ * bytes. Files that match none of them are read as text.
+ */
+export function detectFileType(
+  name: string | undefined,
+  mimeType: string | undefined,
+  content: Buffer,
+): FileType {
+  const byExtension = name && EXTENSION_TYPES[path.extname(name).toLowerCase()];
+  if (byExtension) {
+    return byExtension;
+  }
+  const byMimeType = mimeType && MIME_TYPES[mimeType.split(";")[0].trim()];
+  if (byMimeType) {
+    return byMimeType;
+  }
+  const head = content.subarray(0, 512).toString("utf-8");
+  if (head.startsWith("%PDF-")) {
+    return "pdf";
+  }
+  // DOCX files are zip archives.
+  if (head.startsWith("PK\x03\x04")) {
+    return "docx";
+  }
+  if (/^\s*(<!doctype html|<html)/i.test(head)) {
+    return "html";
+  }
+  return "text";
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith("#")) {
+      const value =
+        code[1].toLowerCase() === "x"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Extract the readable text and title of an HTML page. Scripts, styles and
+ * other non-content elements are dropped, and block elements become line
+ * breaks.
+ */
+export function extractHtmlText(html: string): {
+  title?: string;
+  text: string;
+} {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(
+      /<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1\s*>/gi,
+      "",
+    )
+    .replace(
+      /<\/?(p|div|br|li|tr|h[1-6]|section|article|header|footer|ul|ol|table|blockquote|pre)\b[^>]*>/gi,
+      "\n",
+    )
+    .replace(/<[^>]+>/g, "");
+  return {
+    title: title ? decodeEntities(title).trim() : undefined,
+    text: decodeEntities(text)
+      .split("\n")
+      .map((line) => line.replace(/\s+/g, " ").trim())
+      .filter(Boolean)
+      .join("\n"),
+  };
+}
+
+async function readFileInput(
+  file: FileInput,
+  fileRoot: string,
+): Promise<{ source: string; content: Buffer }> {
+  if (file.path) {
+    if (!fileRoot) {
+      throw new Error(
+        `Cannot read ${file.path}: files can only be read by path inside a configured file root. Upload its contents as base64 data instead.`,
+      );
+    }
+    try {
+      const target = await resolveSandboxedPath(fileRoot, file.path);
+      return { source: file.path, content: await fs.readFile(target) };
+    } catch (e: any) {
+      throw new Error(`Failed to read ${file.path}: ${e.message}`);
+    }
+  }
+  if (file.data !== undefined) {
+    const content = Buffer.from(file.data, "base64");
+    // An upload without a name is identified by its content, so it is not
+    // mistaken for other unnamed uploads when it is re-indexed.
+    const hash = createHash("sha256").update(content).digest("hex");
+    return { source: file.filename ?? `upload-${hash.slice(0, 16)}`, content };
+  }
+  throw new Error("A file to index needs either a path or base64 data.");
+}
+
+/**
+ * Load a file as documents, with its text and metadata extracted.
+ * @param file - The file to load.
+ * @param fileRoot - The directory files given by path are read from. Without
+ * one, only uploads are accepted.
+ */
+export async function loadFile(
+  file: FileInput,
+  fileRoot = "",
+): Promise<Document[]> {
+  const { source, content } = await readFileInput(file, fileRoot);
+  const fileType = detectFileType(
+    file.filename ?? file.path,
+    file.mimeType,
+    content,
+  );
+  const name = path.basename(source, path.extname(source));
+  const metadata = { source, title: name, file_type: fileType };
+  const blob = new Blob([content]);
+
+  try {
+    switch (fileType) {
+      case "pdf": {
+        const pages = await new PDFLoader(blob).load();
+        return pages.map(
+          (page) =>
+            new Document({
+              pageContent: page.pageContent,
+              metadata: {
+                ...metadata,
+                title: page.metadata.pdf?.info?.Title || name,
+                page: page.metadata.loc?.pageNumber,
+              },
+            }),
+        );
+      }
+      case "docx": {
+        const docs = await new DocxLoader(blob).load();
+        return docs.map(
+          (doc) => new Document({ pageContent: doc.pageContent, metadata }),
+        );
+      }
+      case "csv": {
+        const rows = await new CSVLoader(blob).load();
+        return rows.map(
+          (row, i) =>
+            new Document({
+              pageContent: row.pageContent,
+              metadata: { ...metadata, row: i + 1 },
+            }),
+        );
+      }
+      case "html": {
+        const { title, text } = extractHtmlText(content.toString("utf-8"));
+        return [
+          new Document({
+            pageContent: text,
+            metadata: { ...metadata, title: title || name },
+          }),
+        ];
+      }
+      case "markdown": {
+        const text = content.toString("utf-8");
+        const title = text.match(/^#\s+(.+?)\s*#*\s*$/m)?.[1];
+        return [
+          new Document({
+            pageContent: text,
+            metadata: { ...metadata, title: title || name },
+          }),
+        ];
+      }
+      default:
+        return [
+          new Document({ pageContent: content.toString("utf-8"), metadata }),
+        ];
+    }
+  } catch (e: any) {
+    throw new Error(`Failed to load ${source} as ${fileType}: ${e.message}`);
+  }
+}
+
+/**
+ * Load files as documents, in order. Files with no text, such as scanned
+ * PDFs, give no documents.
+ * @param files - The files to load.
+ * @param fileRoot - The directory files given by path are read from. Without
+ * one, only uploads are accepted.
+ */
+export async function loadFiles(
+  files: FileInput[],
+  fileRoot = "",
+): Promise<Document[]> {
+  const loaded = await Promise.all(
+    files.map((file) => loadFile(file, fileRoot)),
+  );
+  return loaded.flat().filter((doc) => doc.pageContent.trim());
+}
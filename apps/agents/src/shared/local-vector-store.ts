@@ -0,0 +1,238 @@
+/**
+ * A vector store kept in memory and saved to a JSON file, for indexing and
+ * searching documents without an external database, e.g. in development and
+ * CI. Each store reads the file when it is loaded, and applies every change to
+ * the file's latest contents, so separate runs against the same file see each
+ * other's documents and do not overwrite them.
+ * Search is brute-force cosine similarity, which suits small corpora.
+ */
+import { Document, DocumentInterface } from "@langchain/core/documents";
+import { Embeddings } from "@langchain/core/embeddings";
+import { cosineSimilarity } from "@langchain/core/utils/math";
+import { VectorStore } from "@langchain/core/vectorstores";
+import fs from "fs/promises";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+
+/** The file used when `LOCAL_VECTOR_STORE_PATH` is not set. */
+export const DEFAULT_LOCAL_VECTOR_STORE_PATH = ".vectorstore/vectors.json";
+
+/**
+ * A stored document with its embedding.
+ */
+export interface LocalVectorRecord {
+  id: string;
+  pageContent: string;
+  metadata: Record<string, any>;
+  embedding: number[];
+}
+
+/**
+ * Metadata a document must match to be returned. Each key must equal the
+ * given value, or be one of them if an array is given.
+ */
+export type LocalVectorFilter = Record<string, any>;
+
+/**
+ * Options for `LocalVectorStore`.
+ */
+export interface LocalVectorStoreArgs {
+  /** The JSON file the vectors are saved to. Created on the first write. */
+  path: string;
+}
+
+/**
+ * The pending write to each file, so writes from every store in this process
+ * are applied one at a time.
+ */
+const writeQueues = new Map<string, Promise<void>>();
+
+async function readRecords(filePath: string): Promise<LocalVectorRecord[]> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, "utf-8"));
+  } catch (e: any) {
+    if (e.code === "ENOENT") {
+      return [];
+    }
+    throw new Error(
+      `Failed to read the local vector store at ${filePath}: ${e.message}`,
+    );
+  }
+}
+
+/**
+ * Write the records through a temporary file, so a crash never leaves the file
+ * half written. The temporary name is unique, so concurrent writers never
+ * share one.
+ */
+async function writeRecords(
+  filePath: string,
+  records: LocalVectorRecord[],
+): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.${uuidv4()}.tmp`;
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(records));
+    await fs.rename(tempPath, filePath);
+  } catch (e) {
+    await fs.rm(tempPath, { force: true });
+    throw e;
+  }
+}
+
+function matchesFilter(
+  metadata: Record<string, any>,
+  filter: LocalVectorFilter = {},
+): boolean {
+  return Object.entries(filter).every(([key, expected]) =>
+    Array.isArray(expected)
+      ? expected.includes(metadata[key])
+      : metadata[key] === expected,
+  );
+}
+
+export class LocalVectorStore extends VectorStore {
+  declare FilterType: LocalVectorFilter;
+
+  path: string;
+
+  records: LocalVectorRecord[] = [];
+
+  constructor(embeddings: Embeddings, args: LocalVectorStoreArgs) {
+    super(embeddings, args);
+    this.path = args.path;
+  }
+
+  _vectorstoreType(): string {
+    return "local";
+  }
+
+  /**
+   * Create a store with the vectors saved in a file, or an empty one if the
+   * file does not exist yet.
+   */
+  static async load(
+    embeddings: Embeddings,
+    args: LocalVectorStoreArgs,
+  ): Promise<LocalVectorStore> {
+    const store = new LocalVectorStore(embeddings, args);
+    store.records = await readRecords(args.path);
+    return store;
+  }
+
+  /**
+   * Apply a change to the records saved in the file and keep the result.
+   * The change is applied to what the file holds when it is written, not to
+   * this store's copy, so writes by other stores since it was loaded are kept.
+   */
+  private async update(
+    change: (records: LocalVectorRecord[]) => LocalVectorRecord[],
+  ): Promise<void> {
+    const key = path.resolve(this.path);
+    const write = (writeQueues.get(key) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(async () => {
+        const records = change(await readRecords(this.path));
+        await writeRecords(this.path, records);
+        this.records = records;
+      });
+    writeQueues.set(key, write);
+    try {
+      await write;
+    } finally {
+      if (writeQueues.get(key) === write) {
+        writeQueues.delete(key);
+      }
+    }
+  }
+
+  async addDocuments(
+    documents: DocumentInterface[],
+    options?: { ids?: string[] },
+  ): Promise<string[]> {
+    const vectors = await this.embeddings.embedDocuments(
+      documents.map((doc) => doc.pageContent),
+    );
+    return this.addVectors(vectors, documents, options);
+  }
+
+  /**
+   * Add documents with their embeddings. Documents given an id that is
+   * already stored replace it.
+   */
+  async addVectors(
+    vectors: number[][],
+    documents: DocumentInterface[],
+    options?: { ids?: string[] },
+  ): Promise<string[]> {
+    const ids = documents.map(
+      (doc, i) => options?.ids?.[i] ?? doc.id ?? uuidv4(),
+    );
+    const added = new Set(ids);
+    await this.update((records) => [
+      ...records.filter((record) => !added.has(record.id)),
+      ...documents.map((doc, i) => ({
+        id: ids[i],
+        pageContent: doc.pageContent,
+        metadata: doc.metadata,
+        embedding: vectors[i],
+      })),
+    ]);
+    return ids;
+  }
+
+  async similaritySearchVectorWithScore(
+    query: number[],
+    k: number,
+    filter?: this["FilterType"],
+  ): Promise<[Document, number][]> {
+    const candidates = this.records.filter((record) =>
+      matchesFilter(record.metadata, filter),
+    );
+    if (!candidates.length) {
+      return [];
+    }
+    // Vectors from another embedding model cannot be compared.
+    const dims = candidates[0].embedding.length;
+    if (dims !== query.length) {
+      throw new Error(
+        `The local vector store at ${this.path} holds ${dims}-dimension vectors, but the query has ${query.length}. Re-index the documents after changing the embedding model.`,
+      );
+    }
+    const [scores] = cosineSimilarity(
+      [query],
+      candidates.map((record) => record.embedding),
+    );
+    return candidates
+      .map((record, i): [Document, number] => [
+        new Document({
+          id: record.id,
+          pageContent: record.pageContent,
+          metadata: record.metadata,
+        }),
+        // A zero vector, such as the hash embedding of text without words,
+        // has no direction. It scores 0 whichever way the similarity function
+        // handles it, since a NaN score would break sorting.
+        Number.isNaN(scores[i]) ? 0 : scores[i],
+      ])
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, k);
+  }
+
+  /**
+   * Delete documents by id, or every document matching a filter.
+   */
+  async delete(params: {
+    ids?: string[];
+    filter?: LocalVectorFilter;
+  }): Promise<void> {
+    const ids = new Set(params.ids ?? []);
+    await this.update((records) =>
+      records.filter(
+        (record) =>
+          !ids.has(record.id) &&
+          !(params.filter && matchesFilter(record.metadata, params.filter)),
+      ),
+    );
+  }
+}
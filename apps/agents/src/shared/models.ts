@@ -0,0 +1,355 @@
+/**
+ * Chat model loading shared by the agent graphs.
+ * A model can be configured as an ordered list of `provider/model` names. Calls
+ * go to the first model and fail over to the next one on rate limits, overload
+ * and other provider errors.
+ */
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import {
+  BaseLanguageModelInput,
+  StructuredOutputMethodOptions,
+} from "@langchain/core/language_models/base";
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+  BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+} from "@langchain/core/messages";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+import {
+  Runnable,
+  RunnableConfig,
+  RunnableLambda,
+} from "@langchain/core/runnables";
+import { initChatModel } from "langchain/chat_models/universal";
+import { z } from "zod";
+
+/**
+ * Retries each model makes before failing over to the next one. The last
+ * model in a chain keeps the provider's default.
+ */
+const FALLBACK_MAX_RETRIES = 2;
+
+const FALLBACK_ERROR_PATTERN =
+  /rate.?limit|too many requests|overloaded|capacity|quota|unavailable|internal server error|timed? ?out|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|fetch failed|network/i;
+
+/**
+ * Check whether a model error should fail over to the next model: rate limits,
+ * overload, server errors and connection failures. Errors caused by the
+ * request itself, such as invalid input, are raised instead.
+ */
+export function isFallbackError(error: unknown): boolean {
+  if (!(error instanceof Error) || error.name === "AbortError") {
+    return false;
+  }
+  const { status, lc_error_code } = error as {
+    status?: unknown;
+    lc_error_code?: string;
+  };
+  if (typeof status === "number") {
+    return status === 408 || status === 429 || status >= 500;
+  }
+  return (
+    lc_error_code === "MODEL_RATE_LIMIT" ||
+    FALLBACK_ERROR_PATTERN.test(error.message)
+  );
+}
+
+interface ChatModelWithFallbacksFields {
+  /** The models to try, in order. */
+  models: BaseChatModel[];
+  /** The configured `provider/model` name of each model. */
+  modelNames: string[];
+  /** Tools bound with `bindTools`, bound to each model when it is called. */
+  tools?: BindToolsInput[];
+  /** Options bound with `bindTools`, such as `tool_choice`. */
+  toolKwargs?: Partial<BaseChatModelCallOptions>;
+}
+
+/**
+ * A chat model that tries an ordered list of models, failing over to the next
+ * one when a call fails with a rate limit, overload or provider error.
+ * Responses record the model that answered in `response_metadata.answered_by`.
+ */
+export class ChatModelWithFallbacks extends BaseChatModel<
+  BaseChatModelCallOptions,
+  AIMessageChunk
+> {
+  models: BaseChatModel[];
+
+  modelNames: string[];
+
+  tools?: BindToolsInput[];
+
+  toolKwargs?: Partial<BaseChatModelCallOptions>;
+
+  constructor(fields: ChatModelWithFallbacksFields) {
+    super({});
+    if (!fields.models.length) {
+      throw new Error("At least one model must be configured");
+    }
+    this.models = fields.models;
+    this.modelNames = fields.modelNames;
+    this.tools = fields.tools;
+    this.toolKwargs = fields.toolKwargs;
+  }
+
+  _llmType(): string {
+    return "chat_model_with_fallbacks";
+  }
+
+  bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<BaseChatModelCallOptions>,
+  ): Runnable<
+    BaseLanguageModelInput,
+    AIMessageChunk,
+    BaseChatModelCallOptions
+  > {
+    return new ChatModelWithFallbacks({
+      models: this.models,
+      modelNames: this.modelNames,
+      tools,
+      toolKwargs: kwargs,
+    });
+  }
+
+  /**
+   * The model at a position in the chain, with any bound tools.
+   */
+  private getModel(
+    index: number,
+  ): Runnable<BaseLanguageModelInput, BaseMessage> {
+    const model = this.models[index];
+    if (!this.tools) {
+      return model;
+    }
+    if (!model.bindTools) {
+      throw new Error(
+        `Model "${this.modelNames[index]}" does not support tool calling`,
+      );
+    }
+    return model.bindTools(this.tools, this.toolKwargs);
+  }
+
+  /**
+   * Run a call against each model in turn until one succeeds.
+   */
+  private async tryEachModel<T>(
+    run: (index: number) => Promise<T>,
+  ): Promise<T> {
+    for (let index = 0; ; index += 1) {
+      try {
+        return await run(index);
+      } catch (error) {
+        if (index >= this.models.length - 1 || !isFallbackError(error)) {
+          throw error;
+        }
+        console.warn(
+          `Model "${this.modelNames[index]}" failed, falling back to "${this.modelNames[index + 1]}":`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Call options for a model in the chain. Its own run is kept out of
+   * streamed output, which comes from this model instead.
+   */
+  private getCallOptions(options: this["ParsedCallOptions"]): RunnableConfig {
+    return { ...options, tags: ["langsmith:nostream"] };
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    _runManager?: CallbackManagerForLLMRun,
+  ): Promise<ChatResult> {
+    return this.tryEachModel(async (index) => {
+      const response = await this.getModel(index).invoke(
+        messages,
+        this.getCallOptions(options),
+      );
+      const aiMessage = response as AIMessage;
+      // Record which configured model answered.
+      const message = new AIMessage({
+        id: aiMessage.id,
+        name: aiMessage.name,
+        content: aiMessage.content,
+        additional_kwargs: aiMessage.additional_kwargs,
+        response_metadata: {
+          ...aiMessage.response_metadata,
+          answered_by: this.modelNames[index],
+        },
+        tool_calls: aiMessage.tool_calls,
+        invalid_tool_calls: aiMessage.invalid_tool_calls,
+        usage_metadata: aiMessage.usage_metadata,
+      });
+      return {
+        generations: [
+          {
+            text: typeof message.content === "string" ? message.content : "",
+            message,
+          },
+        ],
+      };
+    });
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun,
+  ): AsyncGenerator<ChatGenerationChunk> {
+    for (let index = 0; index < this.models.length; index += 1) {
+      let streamed = false;
+      try {
+        const stream = await this.getModel(index).stream(
+          messages,
+          this.getCallOptions(options),
+        );
+        for await (const chunk of stream) {
+          // Chunk metadata is merged, so the model is recorded once.
+          const message = streamed
+            ? (chunk as AIMessageChunk)
+            : new AIMessageChunk({
+                id: chunk.id,
+                content: chunk.content,
+                additional_kwargs: chunk.additional_kwargs,
+                response_metadata: {
+                  ...chunk.response_metadata,
+                  answered_by: this.modelNames[index],
+                },
+                tool_call_chunks: (chunk as AIMessageChunk).tool_call_chunks,
+                usage_metadata: (chunk as AIMessageChunk).usage_metadata,
+              });
+          streamed = true;
+          const generationChunk = new ChatGenerationChunk({
+            message,
+            text: typeof message.content === "string" ? message.content : "",
+          });
+          yield generationChunk;
+          await runManager?.handleLLMNewToken(
+            generationChunk.text,
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            { chunk: generationChunk },
+          );
+        }
+        return;
+      } catch (error) {
+        // Output already streamed from one model cannot be taken back.
+        if (
+          streamed ||
+          index >= this.models.length - 1 ||
+          !isFallbackError(error)
+        ) {
+          throw error;
+        }
+        console.warn(
+          `Model "${this.modelNames[index]}" failed, falling back to "${this.modelNames[index + 1]}":`,
+          error instanceof Error ? error.message : error,
+        );
+      }
+    }
+  }
+
+  withStructuredOutput<
+    RunOutput extends Record<string, any> = Record<string, any>,
+  >(
+    outputSchema: z.ZodType<RunOutput> | Record<string, any>,
+    config?: StructuredOutputMethodOptions<false>,
+  ): Runnable<BaseLanguageModelInput, RunOutput>;
+
+  withStructuredOutput<
+    RunOutput extends Record<string, any> = Record<string, any>,
+  >(
+    outputSchema: z.ZodType<RunOutput> | Record<string, any>,
+    config?: StructuredOutputMethodOptions<true>,
+  ): Runnable<BaseLanguageModelInput, { raw: BaseMessage; parsed: RunOutput }>;
+
+  /**
+   * Use each model's own structured output support, failing over in order.
+   */
+  withStructuredOutput<
+    RunOutput extends Record<string, any> = Record<string, any>,
+  >(
+    outputSchema: z.ZodType<RunOutput> | Record<string, any>,
+    config?: StructuredOutputMethodOptions<boolean>,
+  ):
+    | Runnable<BaseLanguageModelInput, RunOutput>
+    | Runnable<
+        BaseLanguageModelInput,
+        { raw: BaseMessage; parsed: RunOutput }
+      > {
+    const structuredModels = this.models.map((model) =>
+      model.withStructuredOutput<RunOutput>(
+        outputSchema,
+        config as StructuredOutputMethodOptions<false>,
+      ),
+    );
+    return RunnableLambda.from(
+      (input: BaseLanguageModelInput, options?: RunnableConfig) =>
+        this.tryEachModel(async (index) => {
+          const output = await structuredModels[index].invoke(input, options);
+          // Record which configured model answered, as for plain calls.
+          const { raw } = output as { raw?: BaseMessage };
+          if (config?.includeRaw && raw) {
+            raw.response_metadata = {
+              ...raw.response_metadata,
+              answered_by: this.modelNames[index],
+            };
+          }
+          return output;
+        }),
+    ).withConfig({ runName: "StructuredOutput" });
+  }
+}
+
+/**
+ * Load a single chat model from a fully specified name.
+ */
+async function initModel(
+  fullySpecifiedName: string,
+  fields: { maxRetries?: number },
+): Promise<BaseChatModel> {
+  const index = fullySpecifiedName.indexOf("/");
+  if (index === -1) {
+    // If there's no "/", assume it's just the model
+    return await initChatModel(fullySpecifiedName, fields);
+  } else {
+    const provider = fullySpecifiedName.slice(0, index);
+    const model = fullySpecifiedName.slice(index + 1);
+    return await initChatModel(model, { modelProvider: provider, ...fields });
+  }
+}
+
+/**
+ * Load a chat model from a fully specified name, or from an ordered list of
+ * names to fail over between.
+ * @param fullySpecifiedName - String in the format 'provider/model' or 'provider/account/provider/model', or a list of them.
+ * @returns A Promise that resolves to a chat model that tries each model in order.
+ */
+export async function loadChatModel(
+  fullySpecifiedName: string | string[],
+): Promise<ChatModelWithFallbacks> {
+  const modelNames = [fullySpecifiedName].flat();
+  const models = await Promise.all(
+    modelNames.map((name, index) =>
+      initModel(
+        name,
+        index < modelNames.length - 1
+          ? { maxRetries: FALLBACK_MAX_RETRIES }
+          : {},
+      ),
+    ),
+  );
+  return new ChatModelWithFallbacks({ models, modelNames });
+}
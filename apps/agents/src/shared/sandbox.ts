@@ -0,0 +1,34 @@
+/**
+ * Filesystem sandboxing shared by the agents. Paths that come from a model or
+ * from run input are only read inside a configured root directory.
+ */
+import fs from "fs/promises";
+import path from "path";
+
+/**
+ * Resolve a path against a sandbox root, rejecting anything that escapes it.
+ * Symlinks are resolved before the check, so links pointing outside the root
+ * are rejected too.
+ * @param root - The directory the path must stay within.
+ * @param relativePath - The requested path, relative to the root.
+ * @returns The absolute, real path inside the root.
+ */
+export async function resolveSandboxedPath(
+  root: string,
+  relativePath: string,
+): Promise<string> {
+  if (!root) {
+    throw new Error("No directory is configured for file access");
+  }
+  const realRoot = await fs.realpath(path.resolve(root));
+  const realTarget = await fs.realpath(path.resolve(realRoot, relativePath));
+  const relative = path.relative(realRoot, realTarget);
+  if (
+    relative === ".." ||
+    relative.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relative)
+  ) {
+    throw new Error(`Path "${relativePath}" is outside the allowed directory`);
+  }
+  return realTarget;
+}
@@ -0,0 +1,98 @@
+// A local stand-in for the OpenAI chat completions API, so graphs that load
+// their model by name can run in unit tests without a network or API key.
+import http from "http";
+import { AddressInfo } from "net";
+
+/**
+ * A scripted reply: text, tool calls, or both.
+ */
+export interface FakeReply {
+  content?: string;
+  toolCalls?: { name: string; args: Record<string, any> }[];
+}
+
+/**
+ * A running fake server and the request bodies it has received.
+ */
+export interface FakeOpenAI {
+  requests: Record<string, any>[];
+  close: () => Promise<void>;
+}
+
+/**
+ * Start a fake OpenAI server and point the OpenAI client at it through
+ * `OPENAI_BASE_URL` until it is closed.
+ * @param reply Gets the reply to each request, from the request body.
+ */
+export async function startFakeOpenAI(
+  reply: (body: Record<string, any>) => FakeReply,
+): Promise<FakeOpenAI> {
+  const requests: Record<string, any>[] = [];
+  const server = http.createServer((req, res) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => {
+      const body = JSON.parse(data || "{}");
+      requests.push(body);
+      const { content = "", toolCalls = [] } = reply(body);
+      res.setHeader("content-type", "application/json");
+      res.end(
+        JSON.stringify({
+          id: `chatcmpl-${requests.length}`,
+          object: "chat.completion",
+          created: Math.floor(Date.now() / 1000),
+          model: body.model,
+          choices: [
+            {
+              index: 0,
+              message: {
+                role: "assistant",
+                content,
+                ...(toolCalls.length && {
+                  tool_calls: toolCalls.map((call, i) => ({
+                    id: `call_${requests.length}_${i}`,
+                    type: "function",
+                    function: {
+                      name: call.name,
+                      arguments: JSON.stringify(call.args),
+                    },
+                  })),
+                }),
+              },
+              finish_reason: toolCalls.length ? "tool_calls" : "stop",
+            },
+          ],
+          usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 },
+        }),
+      );
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  const previous = {
+    baseUrl: process.env.OPENAI_BASE_URL,
+    apiKey: process.env.OPENAI_API_KEY,
+  };
+  const { port } = server.address() as AddressInfo;
+  process.env.OPENAI_BASE_URL = `http://127.0.0.1:${port}/v1`;
+  process.env.OPENAI_API_KEY = "test";
+
+  return {
+    requests,
+    close: async () => {
+      for (const [name, value] of [
+        ["OPENAI_BASE_URL", previous.baseUrl],
+        ["OPENAI_API_KEY", previous.apiKey],
+      ] as const) {
+        if (value === undefined) {
+          delete process.env[name];
+        } else {
+          process.env[name] = value;
+        }
+      }
+      await new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      );
+    },
+  };
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "@jest/globals";
+import { Document } from "@langchain/core/documents";
+import { reduceDocs } from "../../../research-agent/shared/state.js";
+import {
+  chunkDocuments,
+  ChunkingOptions,
+  getChunkId,
+  splitMarkdownSections,
+} from "../../chunking.js";
+
+const options: ChunkingOptions = {
+  chunkingStrategy: "recursive",
+  chunkSize: 100,
+  chunkOverlap: 20,
+  embeddingModel: "openai/text-embedding-3-small",
+};
+
+const paragraph = (word: string) => Array(30).fill(word).join(" ");
+
+describe("chunkDocuments", () => {
+  it("keeps short documents whole", async () => {
+    const chunks = await chunkDocuments(
+      [new Document({ pageContent: "Short.", metadata: { id: "doc-1" } })],
+      options,
+    );
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].id).toBe(getChunkId("doc-1", 0));
+    expect(chunks[0].metadata).toEqual({
+      id: getChunkId("doc-1", 0),
+      parent_id: "doc-1",
+      chunk_index: 0,
+      chunk_count: 1,
+    });
+  });
+
+  it("takes the parent id from metadata.uuid", async () => {
+    const chunks = await chunkDocuments(
+      [new Document({ pageContent: "Short.", metadata: { uuid: "doc-2" } })],
+      options,
+    );
+    expect(chunks[0].metadata.parent_id).toBe("doc-2");
+    expect(chunks[0].metadata.uuid).toBe(getChunkId("doc-2", 0));
+  });
+
+  it("gives each chunk its own id, so retrieved chunks are all kept", async () => {
+    const doc = new Document({
+      pageContent: `${paragraph("alpha")}\n\n${paragraph("beta")}`,
+      metadata: { uuid: "doc-3", source: "a.txt" },
+    });
+    const chunks = await chunkDocuments([doc], options);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(new Set(chunks.map((chunk) => chunk.id)).size).toBe(chunks.length);
+    expect(reduceDocs([], chunks)).toHaveLength(chunks.length);
+    expect(reduceDocs(chunks.slice(0, 1), chunks.slice(1))).toHaveLength(
+      chunks.length,
+    );
+  });
+
+  it("takes chunk ids from the given function", async () => {
+    const chunks = await chunkDocuments(
+      [new Document({ pageContent: "Short.", id: "doc-4" })],
+      options,
+      (parentId, chunkIndex) => `${parentId}#${chunkIndex}`,
+    );
+    expect(chunks[0].id).toBe("doc-4#0");
+    expect(chunks[0].metadata).not.toHaveProperty("id");
+  });
+
+  it("splits long documents within the chunk size", async () => {
+    const doc = new Document({
+      id: "doc-1",
+      pageContent: `${paragraph("alpha")}\n\n${paragraph("beta")}`,
+      metadata: { source: "a.txt" },
+    });
+    const chunks = await chunkDocuments([doc], options);
+
+    expect(chunks.length).toBeGreaterThan(2);
+    for (const [i, chunk] of chunks.entries()) {
+      expect(chunk.pageContent.length).toBeLessThanOrEqual(100);
+      expect(chunk.metadata).toMatchObject({
+        source: "a.txt",
+        parent_id: "doc-1",
+        chunk_index: i,
+        chunk_count: chunks.length,
+      });
+    }
+  });
+
+  it("sizes token chunks in tokens", async () => {
+    const doc = new Document({ pageContent: paragraph("word") });
+    const byTokens = await chunkDocuments([doc], {
+      ...options,
+      chunkingStrategy: "token",
+      chunkSize: 10,
+      chunkOverlap: 0,
+    });
+    // Each " word" is one token.
+    expect(byTokens).toHaveLength(3);
+  });
+
+  it("records the headings markdown chunks fall under", async () => {
+    const doc = new Document({
+      pageContent: [
+        "# Guide",
+        "Intro.",
+        "## Install",
+        "Run the installer.",
+        "```",
+        "# not a heading",
+        "```",
+        "## Usage",
+        "Start it.",
+      ].join("\n"),
+      metadata: { id: "guide" },
+    });
+    const chunks = await chunkDocuments([doc], {
+      ...options,
+      chunkingStrategy: "markdown",
+    });
+
+    expect(chunks.map((chunk) => chunk.metadata.headers)).toEqual([
+      "Guide",
+      "Guide > Install",
+      "Guide > Usage",
+    ]);
+    expect(chunks[0].pageContent).toBe("Intro.");
+    expect(chunks[1].pageContent).toContain("# not a heading");
+  });
+
+  it("keeps documents whole with the none strategy", async () => {
+    const pageContent = paragraph("gamma");
+    const chunks = await chunkDocuments([new Document({ pageContent })], {
+      ...options,
+      chunkingStrategy: "none",
+    });
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].pageContent).toBe(pageContent);
+  });
+
+  it("rejects an overlap as large as the chunk size", async () => {
+    await expect(
+      chunkDocuments([], { ...options, chunkOverlap: 100 }),
+    ).rejects.toThrow("chunkOverlap (100) must be smaller than chunkSize");
+  });
+});
+
+describe("splitMarkdownSections", () => {
+  it("resets deeper headings at a shallower one and skips empty sections", () => {
+    const sections = splitMarkdownSections(
+      "# A\n## B\n### C\ntext\n## D\nmore",
+    );
+    expect(sections.map((section) => section.headers)).toEqual([
+      ["A", "B", "C"],
+      ["A", "D"],
+    ]);
+    expect(sections.map((section) => section.text)).toEqual(["text", "more"]);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { RunnableLambda } from "@langchain/core/runnables";
+import { ContextStrategy, countTokens, prepareContext } from "../../context.js";
+
+const filler = "lorem ipsum ".repeat(40);
+
+const summarizer = RunnableLambda.from(
+  async (): Promise<BaseMessage> => new AIMessage("The user said hello."),
+);
+
+function makeThread(turns: number): BaseMessage[] {
+  return Array.from({ length: turns }, (_, i) => [
+    new HumanMessage({ id: `human-${i}`, content: `${i}: ${filler}` }),
+    new AIMessage({ id: `ai-${i}`, content: `${i}: ${filler}` }),
+  ]).flat();
+}
+
+describe("prepareContext", () => {
+  it("sends everything when the thread fits", async () => {
+    const messages = makeThread(2);
+    const context = await prepareContext({
+      systemPrompt: "Be brief.",
+      messages,
+      modelName: "openai/gpt-4o-mini",
+      model: summarizer,
+      maxContextTokens: 10_000,
+      strategy: "trim",
+    });
+    expect(context.messages.slice(1)).toEqual(messages);
+    expect(context.summary).toBeUndefined();
+  });
+
+  it("drops the oldest turns when trimming", async () => {
+    const messages = makeThread(6);
+    const context = await prepareContext({
+      systemPrompt: "Be brief.",
+      messages,
+      modelName: "openai/gpt-4o-mini",
+      model: summarizer,
+      maxContextTokens: 500,
+      strategy: "trim",
+    });
+    const [system, ...kept] = context.messages;
+    expect(kept[0].id).toMatch(/^human-/);
+    expect(kept[kept.length - 1].id).toBe("ai-5");
+    expect(
+      await countTokens([system, ...kept], "openai/gpt-4o-mini"),
+    ).toBeLessThanOrEqual(500);
+    expect(context.summary).toBeUndefined();
+  });
+
+  it("summarizes the oldest turns and skips them next time", async () => {
+    const messages = makeThread(6);
+    const context = await prepareContext({
+      systemPrompt: "Be brief.",
+      messages,
+      modelName: "openai/gpt-4o-mini",
+      model: summarizer,
+      maxContextTokens: 500,
+      strategy: "summarize",
+    });
+    expect(context.summary?.content).toBe("The user said hello.");
+    expect(context.messages[0].content).toContain("The user said hello.");
+
+    const next = await prepareContext({
+      systemPrompt: "Be brief.",
+      messages,
+      summary: context.summary,
+      modelName: "openai/gpt-4o-mini",
+      model: summarizer,
+      maxContextTokens: 500,
+      strategy: "summarize",
+    });
+    expect(next.messages.map((message) => message.id)).toEqual(
+      context.messages.map((message) => message.id),
+    );
+    expect(next.summary).toBeUndefined();
+  });
+
+  it("drops a summary whose last message is no longer in the thread", async () => {
+    const messages = makeThread(2);
+    const context = await prepareContext({
+      systemPrompt: "Be brief.",
+      messages,
+      summary: { content: "The user said hello.", lastMessageId: "removed" },
+      modelName: "openai/gpt-4o-mini",
+      model: summarizer,
+      maxContextTokens: 10_000,
+      strategy: "summarize",
+    });
+    expect(context.messages[0].content).not.toContain("The user said hello.");
+    expect(context.messages.slice(1)).toEqual(messages);
+  });
+
+  it("keeps tool calls with their results inside a long turn", async () => {
+    const messages: BaseMessage[] = [
+      new HumanMessage({ id: "question", content: "Look this up." }),
+    ];
+    for (let i = 0; i < 6; i += 1) {
+      messages.push(
+        new AIMessage({
+          id: `call-${i}`,
+          content: "",
+          tool_calls: [{ id: `tool-call-${i}`, name: "search", args: {} }],
+        }),
+        new ToolMessage({
+          id: `result-${i}`,
+          tool_call_id: `tool-call-${i}`,
+          content: filler,
+        }),
+      );
+    }
+    const context = await prepareContext({
+      systemPrompt: "Be brief.",
+      messages,
+      modelName: "anthropic/claude-3-7-sonnet-latest",
+      model: summarizer,
+      maxContextTokens: 500,
+      strategy: "summarize",
+    });
+    const ids = context.messages.slice(1).map((message) => message.id);
+    expect(ids[0]).toBe("question");
+    expect(ids[1]).toMatch(/^call-/);
+    expect(ids[ids.length - 1]).toBe("result-5");
+  });
+
+  it("rejects unknown strategies", async () => {
+    await expect(
+      prepareContext({
+        systemPrompt: "Be brief.",
+        messages: [],
+        modelName: "openai/gpt-4o-mini",
+        model: summarizer,
+        maxContextTokens: 500,
+        strategy: "forget" as ContextStrategy,
+      }),
+    ).rejects.toThrow("Unrecognized contextStrategy");
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "@jest/globals";
+import { cosineSimilarity } from "@langchain/core/utils/math";
+import { OpenAIEmbeddings } from "@langchain/openai";
+import { HashEmbeddings, makeTextEmbeddings } from "../../embeddings.js";
+
+describe("HashEmbeddings", () => {
+  const embeddings = new HashEmbeddings({ dims: 384 });
+
+  it("returns unit vectors of the configured length", async () => {
+    const vector = await embeddings.embedQuery("The cat sat on the mat.");
+    expect(vector).toHaveLength(384);
+    expect(Math.hypot(...vector)).toBeCloseTo(1);
+  });
+
+  it("is deterministic and ignores case and punctuation", async () => {
+    const [a, b] = await embeddings.embedDocuments([
+      "Cats purr.",
+      "cats, PURR",
+    ]);
+    expect(a).toEqual(b);
+    expect(
+      await new HashEmbeddings({ dims: 384 }).embedQuery("Cats purr."),
+    ).toEqual(a);
+  });
+
+  it("scores texts sharing words above unrelated ones", async () => {
+    const [query, related, unrelated] = await embeddings.embedDocuments([
+      "my cat likes fish",
+      "the cat eats fish daily",
+      "stock markets fell sharply",
+    ]);
+    const [scores] = cosineSimilarity([query], [related, unrelated]);
+    expect(scores[0]).toBeGreaterThan(scores[1]);
+  });
+
+  it("embeds text without words as a zero vector", async () => {
+    const vector = await embeddings.embedQuery("...");
+    expect(vector.every((value) => value === 0)).toBe(true);
+  });
+
+  it("rejects invalid dimensions", () => {
+    expect(() => new HashEmbeddings({ dims: 0 })).toThrow(
+      "positive whole number of dimensions",
+    );
+    expect(() => new HashEmbeddings({ dims: 1_000_000 })).toThrow(
+      "at most 8192 dimensions",
+    );
+  });
+
+  it("embeds text into its largest allowed vectors", async () => {
+    const vector = await new HashEmbeddings({ dims: 8192 }).embedQuery(
+      "cats purr",
+    );
+    expect(vector).toHaveLength(8192);
+    expect(vector.reduce((sum, value) => sum + value * value, 0)).toBeCloseTo(
+      1,
+    );
+  });
+});
+
+describe("makeTextEmbeddings", () => {
+  it("picks the provider from the model name", () => {
+    const local = makeTextEmbeddings("local/hash-384");
+    expect(local).toBeInstanceOf(HashEmbeddings);
+    expect((local as HashEmbeddings).dims).toBe(384);
+    expect(makeTextEmbeddings("openai/text-embedding-3-small")).toBeInstanceOf(
+      OpenAIEmbeddings,
+    );
+  });
+
+  it("rejects unknown providers and local models", () => {
+    expect(() => makeTextEmbeddings("acme/embed-1")).toThrow(
+      "Unsupported embedding provider: acme",
+    );
+    expect(() => makeTextEmbeddings("local/word2vec")).toThrow(
+      "Use local/hash-<dims>",
+    );
+  });
+});
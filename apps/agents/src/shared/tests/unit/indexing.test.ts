@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { Document } from "@langchain/core/documents";
+import { InMemoryStore } from "@langchain/langgraph";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { ChunkingOptions } from "../../chunking.js";
+import { HashEmbeddings } from "../../embeddings.js";
+import {
+  getDocumentId,
+  indexDocuments,
+  IndexOptions,
+  IndexRecord,
+} from "../../indexing.js";
+import { loadFile } from "../../loaders.js";
+import { LocalVectorStore } from "../../local-vector-store.js";
+
+const chunking: ChunkingOptions = {
+  chunkingStrategy: "recursive",
+  chunkSize: 100,
+  chunkOverlap: 0,
+  embeddingModel: "local/hash-64",
+};
+
+const namespace = ["index_records", "user-1"];
+
+const paragraph = (word: string, count = 30) =>
+  Array(count).fill(word).join(" ");
+
+const doc = (pageContent: string, source: string) => {
+  const document = new Document({ pageContent, metadata: { source } });
+  document.id = getDocumentId(document);
+  return document;
+};
+
+describe("getDocumentId", () => {
+  it("is stable for the same source, page and row", () => {
+    const a = { pageContent: "old", metadata: { source: "a.pdf", page: 1 } };
+    const b = { pageContent: "new", metadata: { source: "a.pdf", page: 1 } };
+    const c = { pageContent: "old", metadata: { source: "a.pdf", page: 2 } };
+    expect(getDocumentId(a)).toBe(getDocumentId(b));
+    expect(getDocumentId(a)).not.toBe(getDocumentId(c));
+  });
+
+  it("uses the content of documents without a source", () => {
+    expect(getDocumentId({ pageContent: "same" })).toBe(
+      getDocumentId({ pageContent: "same" }),
+    );
+    expect(getDocumentId({ pageContent: "same" })).not.toBe(
+      getDocumentId({ pageContent: "other" }),
+    );
+  });
+
+  it("numbers documents from the same place in a batch", () => {
+    const seen = new Map<string, number>();
+    const page = { pageContent: "", metadata: { source: "https://a.com" } };
+    const ids = [getDocumentId(page, seen), getDocumentId(page, seen)];
+    expect(ids[0]).toBe(getDocumentId(page));
+    expect(ids[1]).not.toBe(ids[0]);
+  });
+});
+
+describe("indexDocuments", () => {
+  let store: InMemoryStore;
+  let vectorStore: LocalVectorStore;
+  let index: (
+    options: Partial<IndexOptions>,
+  ) => ReturnType<typeof indexDocuments>;
+  const ids = (docs: { id: string }[]) => docs.map((entry) => entry.id);
+
+  beforeEach(async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "indexing-"));
+    store = new InMemoryStore();
+    const embeddings = new HashEmbeddings({ dims: 64 });
+    vectorStore = await LocalVectorStore.load(embeddings, {
+      path: path.join(dir, "vectors.json"),
+    });
+    index = (options) =>
+      indexDocuments({
+        docs: [],
+        vectorStore,
+        store,
+        namespace,
+        chunking,
+        ...options,
+      });
+  });
+
+  const search = async (source: string) =>
+    vectorStore.similaritySearch("anything", 100, { source });
+
+  it("adds new documents and leaves unchanged ones alone", async () => {
+    const a = doc("First document.", "a.txt");
+    const b = doc("Second document.", "b.txt");
+
+    const first = await index({ docs: [a, b] });
+    expect(ids(first.added)).toEqual([a.id, b.id]);
+    expect(first.added[0].source).toBe("a.txt");
+
+    const second = await index({ docs: [a, b] });
+    expect(second.added).toEqual([]);
+    expect(ids(second.unchanged)).toEqual([a.id, b.id]);
+    expect(await search("a.txt")).toHaveLength(1);
+  });
+
+  it("replaces the chunks of an updated document", async () => {
+    const long = doc(
+      `${paragraph("alpha")}\n\n${paragraph("beta")}\n\n${paragraph("gamma")}`,
+      "a.txt",
+    );
+    await index({ docs: [long] });
+    const before = await search("a.txt");
+    expect(before.length).toBeGreaterThan(2);
+
+    const short = doc("Now much shorter.", "a.txt");
+    expect(short.id).toBe(long.id);
+    const report = await index({ docs: [short] });
+    expect(ids(report.updated)).toEqual([long.id]);
+
+    const after = await search("a.txt");
+    expect(after.map((chunk) => chunk.pageContent)).toEqual([
+      "Now much shorter.",
+    ]);
+    const record = await store.get(namespace, long.id!);
+    expect((record?.value as IndexRecord).chunk_ids).toHaveLength(1);
+  });
+
+  it("re-chunks documents when the chunking options change", async () => {
+    const a = doc(`${paragraph("alpha")}\n\n${paragraph("beta")}`, "a.txt");
+    await index({ docs: [a] });
+
+    const report = await index({
+      docs: [a],
+      chunking: { ...chunking, chunkingStrategy: "none" },
+    });
+    expect(ids(report.updated)).toEqual([a.id]);
+    expect(await search("a.txt")).toHaveLength(1);
+  });
+
+  it("ignores options other than chunking in its hash", async () => {
+    const a = doc("First document.", "a.txt");
+    await index({ docs: [a] });
+
+    const report = await index({
+      docs: [a],
+      chunking: { ...chunking, retrieverProvider: "local" } as ChunkingOptions,
+    });
+    expect(ids(report.unchanged)).toEqual([a.id]);
+  });
+
+  it("keeps unnamed uploads apart", async () => {
+    const uploads = await Promise.all(
+      ["First upload.", "Second upload."].map((text) =>
+        loadFile({ data: Buffer.from(text).toString("base64") }),
+      ),
+    );
+    const [first, second] = uploads.map(([document]) => {
+      document.id = getDocumentId(document);
+      return document;
+    });
+    expect(first.metadata.source).toMatch(/^upload-[0-9a-f]{16}$/);
+    expect(second.metadata.source).not.toBe(first.metadata.source);
+
+    await index({ docs: [first] });
+    const report = await index({ docs: [second] });
+    expect(report.deleted).toEqual([]);
+    expect(await search(first.metadata.source)).toHaveLength(1);
+  });
+
+  it("deletes documents a re-indexed source no longer has", async () => {
+    const seen = new Map<string, number>();
+    const page = (text: string) => {
+      const document = new Document({
+        pageContent: text,
+        metadata: { source: "https://a.com" },
+      });
+      document.id = getDocumentId(document, seen);
+      return document;
+    };
+    const [one, two] = [page("Part one."), page("Part two.")];
+    await index({ docs: [one, two] });
+
+    seen.clear();
+    const report = await index({ docs: [page("Part one.")] });
+    expect(ids(report.unchanged)).toEqual([one.id]);
+    expect(report.deleted).toEqual([{ id: two.id, source: "https://a.com" }]);
+    expect(await search("https://a.com")).toHaveLength(1);
+  });
+
+  it("deletes documents by id and by source", async () => {
+    const a = doc("First document.", "a.txt");
+    const b = doc("Second document.", "b.txt");
+    const c = doc("Third document.", "c.txt");
+    await index({ docs: [a, b, c] });
+
+    const report = await index({
+      deletions: { ids: [a.id!, "unknown"], sources: ["b.txt"] },
+    });
+    expect(ids(report.deleted)).toEqual([a.id, b.id]);
+    expect(await search("a.txt")).toEqual([]);
+    expect(await search("b.txt")).toEqual([]);
+    expect(await search("c.txt")).toHaveLength(1);
+    expect(await store.get(namespace, a.id!)).toBeNull();
+  });
+
+  it("keeps the chunks of separate indexes apart", async () => {
+    const a = doc("Shared document.", "a.txt");
+    await index({ docs: [a] });
+    await index({ docs: [a], namespace: ["index_records", "user-2"] });
+    expect(await search("a.txt")).toHaveLength(2);
+  });
+});
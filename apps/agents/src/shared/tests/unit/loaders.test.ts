@@ -0,0 +1,133 @@
+import { describe, it, expect } from "@jest/globals";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  detectFileType,
+  extractHtmlText,
+  loadFile,
+  loadFiles,
+} from "../../loaders.js";
+
+const base64 = (text: string) => Buffer.from(text).toString("base64");
+
+describe("detectFileType", () => {
+  it("prefers the file extension", () => {
+    expect(detectFileType("notes.MD", "text/plain", Buffer.from(""))).toBe(
+      "markdown",
+    );
+    expect(detectFileType("a/b/report.pdf", undefined, Buffer.from(""))).toBe(
+      "pdf",
+    );
+  });
+
+  it("falls back to the MIME type", () => {
+    expect(
+      detectFileType("upload", "text/csv; charset=utf-8", Buffer.from("")),
+    ).toBe("csv");
+  });
+
+  it("falls back to the file's first bytes", () => {
+    expect(detectFileType(undefined, undefined, Buffer.from("%PDF-1.4"))).toBe(
+      "pdf",
+    );
+    expect(
+      detectFileType(undefined, undefined, Buffer.from("PK\x03\x04...")),
+    ).toBe("docx");
+    expect(
+      detectFileType(undefined, undefined, Buffer.from("<!DOCTYPE html><p>")),
+    ).toBe("html");
+    expect(detectFileType(undefined, undefined, Buffer.from("hello"))).toBe(
+      "text",
+    );
+  });
+});
+
+describe("extractHtmlText", () => {
+  it("keeps the readable text and title", () => {
+    const { title, text } = extractHtmlText(
+      "<html><head><title>Tea &amp; Co</title><style>p { color: red }</style></head>" +
+        "<body><h1>Teas</h1><!-- hidden --><p>Green&nbsp;tea is &lt;great&gt;&#33;</p>" +
+        "<script>track()</script></body></html>",
+    );
+    expect(title).toBe("Tea & Co");
+    expect(text).toBe("Teas\nGreen tea is <great>!");
+  });
+});
+
+describe("loadFile", () => {
+  it("loads a Markdown upload with its first heading as the title", async () => {
+    const [doc] = await loadFile({
+      data: base64("# Setup Guide\n\nInstall it."),
+      filename: "guide.md",
+    });
+    expect(doc.pageContent).toBe("# Setup Guide\n\nInstall it.");
+    expect(doc.metadata).toEqual({
+      source: "guide.md",
+      title: "Setup Guide",
+      file_type: "markdown",
+    });
+  });
+
+  it("loads a CSV as a document per row", async () => {
+    const docs = await loadFile({
+      data: base64("name,sound\ncat,purr\ndog,bark\n"),
+      mimeType: "text/csv",
+    });
+    expect(docs.map((doc) => doc.pageContent)).toEqual([
+      "name: cat\nsound: purr",
+      "name: dog\nsound: bark",
+    ]);
+    expect(docs.map((doc) => doc.metadata.row)).toEqual([1, 2]);
+  });
+
+  it("loads a local text file with its path as the source", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "loaders-"));
+    await fs.writeFile(path.join(dir, "notes.txt"), "Just text.");
+
+    const [doc] = await loadFile({ path: "notes.txt" }, dir);
+    expect(doc.pageContent).toBe("Just text.");
+    expect(doc.metadata).toEqual({
+      source: "notes.txt",
+      title: "notes",
+      file_type: "text",
+    });
+  });
+
+  it("only reads paths inside the file root", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "loaders-"));
+    await expect(loadFile({ path: "/etc/hostname" })).rejects.toThrow(
+      "only be read by path inside a configured file root",
+    );
+    await expect(loadFile({ path: "/etc/hostname" }, dir)).rejects.toThrow(
+      "outside the allowed directory",
+    );
+    await expect(loadFile({ path: "../x.txt" }, dir)).rejects.toThrow(
+      "Failed to read ../x.txt",
+    );
+  });
+
+  it("rejects a file without a path or data", async () => {
+    await expect(loadFile({ filename: "x.txt" })).rejects.toThrow(
+      "needs either a path or base64 data",
+    );
+  });
+
+  it("names the file it failed to read", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "loaders-"));
+    await expect(loadFile({ path: "missing.pdf" }, dir)).rejects.toThrow(
+      "Failed to read missing.pdf",
+    );
+  });
+});
+
+describe("loadFiles", () => {
+  it("loads files in order and skips empty ones", async () => {
+    const docs = await loadFiles([
+      { data: base64("first"), filename: "a.txt" },
+      { data: base64("  "), filename: "empty.txt" },
+      { data: base64("<p>second</p>"), filename: "b.html" },
+    ]);
+    expect(docs.map((doc) => doc.pageContent)).toEqual(["first", "second"]);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach } from "@jest/globals";
+import { Document } from "@langchain/core/documents";
+import { SyntheticEmbeddings } from "@langchain/core/utils/testing";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { HashEmbeddings } from "../../embeddings.js";
+import { LocalVectorStore } from "../../local-vector-store.js";
+
+const embeddings = new SyntheticEmbeddings({ vectorSize: 16 });
+
+describe("LocalVectorStore", () => {
+  let storePath: string;
+
+  beforeEach(async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "local-vectors-"));
+    storePath = path.join(dir, "nested", "vectors.json");
+  });
+
+  it("starts empty when the file does not exist", async () => {
+    const store = await LocalVectorStore.load(embeddings, { path: storePath });
+    expect(await store.similaritySearch("anything")).toEqual([]);
+  });
+
+  it("persists documents across loads", async () => {
+    const store = await LocalVectorStore.load(embeddings, { path: storePath });
+    await store.addDocuments([
+      new Document({ pageContent: "cats purr", metadata: { user_id: "a" } }),
+    ]);
+
+    const reloaded = await LocalVectorStore.load(embeddings, {
+      path: storePath,
+    });
+    const [doc] = await reloaded.similaritySearch("cats purr", 1);
+    expect(doc.pageContent).toBe("cats purr");
+    expect(doc.metadata).toEqual({ user_id: "a" });
+  });
+
+  it("ranks the closest document first", async () => {
+    const store = await LocalVectorStore.load(embeddings, { path: storePath });
+    await store.addDocuments([
+      new Document({ pageContent: "dogs bark" }),
+      new Document({ pageContent: "cats purr" }),
+    ]);
+    const [[doc, score]] = await store.similaritySearchWithScore(
+      "cats purr",
+      1,
+    );
+    expect(doc.pageContent).toBe("cats purr");
+    expect(score).toBeCloseTo(1);
+  });
+
+  it("filters by metadata", async () => {
+    const store = await LocalVectorStore.load(embeddings, { path: storePath });
+    await store.addDocuments([
+      new Document({ pageContent: "a", metadata: { user_id: "a", n: 1 } }),
+      new Document({ pageContent: "b", metadata: { user_id: "b", n: 2 } }),
+      new Document({ pageContent: "c", metadata: { user_id: "c", n: 3 } }),
+    ]);
+
+    const forA = await store.similaritySearch("a", 10, { user_id: "a" });
+    expect(forA.map((doc) => doc.pageContent)).toEqual(["a"]);
+
+    const anyOf = await store.similaritySearch("a", 10, { n: [2, 3] });
+    expect(anyOf.map((doc) => doc.pageContent).sort()).toEqual(["b", "c"]);
+
+    const retriever = store.asRetriever({ filter: { user_id: "b" } });
+    const retrieved = await retriever.invoke("a");
+    expect(retrieved.map((doc) => doc.pageContent)).toEqual(["b"]);
+  });
+
+  it("replaces documents added again with the same id", async () => {
+    const store = await LocalVectorStore.load(embeddings, { path: storePath });
+    await store.addDocuments([new Document({ pageContent: "old" })], {
+      ids: ["doc-1"],
+    });
+    await store.addDocuments([new Document({ pageContent: "new" })], {
+      ids: ["doc-1"],
+    });
+    expect(store.records).toHaveLength(1);
+    expect(store.records[0].pageContent).toBe("new");
+  });
+
+  it("deletes by id and by filter", async () => {
+    const store = await LocalVectorStore.load(embeddings, { path: storePath });
+    const [first] = await store.addDocuments([
+      new Document({ pageContent: "a", metadata: { user_id: "a" } }),
+      new Document({ pageContent: "b", metadata: { user_id: "b" } }),
+      new Document({ pageContent: "c", metadata: { user_id: "c" } }),
+    ]);
+
+    await store.delete({ ids: [first] });
+    await store.delete({ filter: { user_id: "b" } });
+
+    const reloaded = await LocalVectorStore.load(embeddings, {
+      path: storePath,
+    });
+    expect(reloaded.records.map((record) => record.pageContent)).toEqual(["c"]);
+  });
+
+  it("keeps concurrent writes from stores loaded from the same file", async () => {
+    const first = await LocalVectorStore.load(embeddings, { path: storePath });
+    const second = await LocalVectorStore.load(embeddings, {
+      path: storePath,
+    });
+    await Promise.all([
+      first.addDocuments([new Document({ pageContent: "a" })]),
+      second.addDocuments([new Document({ pageContent: "b" })]),
+      first.addDocuments([new Document({ pageContent: "c" })]),
+    ]);
+    await second.addDocuments([new Document({ pageContent: "d" })]);
+
+    const reloaded = await LocalVectorStore.load(embeddings, {
+      path: storePath,
+    });
+    expect(reloaded.records.map((record) => record.pageContent).sort()).toEqual(
+      ["a", "b", "c", "d"],
+    );
+    expect(second.records).toHaveLength(4);
+    expect(await fs.readdir(path.dirname(storePath))).toEqual(["vectors.json"]);
+  });
+
+  it("scores zero vectors as 0 instead of NaN", async () => {
+    const store = await LocalVectorStore.load(
+      new HashEmbeddings({ dims: 16 }),
+      {
+        path: storePath,
+      },
+    );
+    await store.addDocuments([
+      new Document({ pageContent: "..." }),
+      new Document({ pageContent: "cats purr" }),
+    ]);
+
+    const ranked = await store.similaritySearchWithScore("cats purr", 2);
+    expect(ranked.map(([doc]) => doc.pageContent)).toEqual([
+      "cats purr",
+      "...",
+    ]);
+    expect(ranked[1][1]).toBe(0);
+    const scores = await store.similaritySearchWithScore("!!!", 2);
+    expect(scores.map(([, score]) => score)).toEqual([0, 0]);
+  });
+
+  it("rejects a file that is not valid JSON", async () => {
+    await fs.mkdir(path.dirname(storePath), { recursive: true });
+    await fs.writeFile(storePath, "not json");
+    await expect(
+      LocalVectorStore.load(embeddings, { path: storePath }),
+    ).rejects.toThrow("Failed to read the local vector store");
+  });
+});
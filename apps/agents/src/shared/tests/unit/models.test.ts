@@ -0,0 +1,98 @@
+import { describe, it, expect } from "@jest/globals";
+import { ChatResult } from "@langchain/core/outputs";
+import { FakeListChatModel } from "@langchain/core/utils/testing";
+import { z } from "zod";
+import {
+  ChatModelWithFallbacks,
+  isFallbackError,
+  loadChatModel,
+} from "../../models.js";
+import { startFakeOpenAI } from "../fake-openai.js";
+
+class FailingChatModel extends FakeListChatModel {
+  constructor(private error: Error) {
+    super({ responses: [] });
+  }
+
+  async _generate(): Promise<ChatResult> {
+    throw this.error;
+  }
+}
+
+function httpError(status: number, message: string): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+describe("ChatModelWithFallbacks", () => {
+  it("fails over to the next model and records which one answered", async () => {
+    const model = new ChatModelWithFallbacks({
+      models: [
+        new FailingChatModel(httpError(529, "Overloaded")),
+        new FakeListChatModel({ responses: ["Hello from the fallback"] }),
+      ],
+      modelNames: ["anthropic/claude-3-7-sonnet-latest", "openai/gpt-4o"],
+    });
+    const response = await model.invoke("Hi");
+    expect(response.content).toBe("Hello from the fallback");
+    expect(response.response_metadata.answered_by).toBe("openai/gpt-4o");
+  });
+
+  it("raises errors caused by the request without failing over", async () => {
+    const model = new ChatModelWithFallbacks({
+      models: [
+        new FailingChatModel(httpError(400, "Invalid request")),
+        new FakeListChatModel({ responses: ["unused"] }),
+      ],
+      modelNames: ["openai/gpt-4o", "openai/gpt-4o-mini"],
+    });
+    await expect(model.invoke("Hi")).rejects.toThrow("Invalid request");
+  });
+
+  it("records which model answered with structured output", async () => {
+    const fake = await startFakeOpenAI(() => ({
+      toolCalls: [{ name: "answer", args: { answer: "42" } }],
+    }));
+    try {
+      const fallback = await loadChatModel("openai/gpt-4o-mini");
+      const model = new ChatModelWithFallbacks({
+        models: [
+          new FailingChatModel(httpError(529, "Overloaded")),
+          ...fallback.models,
+        ],
+        modelNames: ["anthropic/claude-3-7-sonnet-latest", "openai/gpt-4o"],
+      });
+      const { raw, parsed } = await model
+        .withStructuredOutput(z.object({ answer: z.string() }), {
+          name: "answer",
+          method: "functionCalling",
+          includeRaw: true,
+        })
+        .invoke("What is the answer?");
+      expect(parsed).toEqual({ answer: "42" });
+      expect(raw.response_metadata.answered_by).toBe("openai/gpt-4o");
+    } finally {
+      await fake.close();
+    }
+  });
+
+  it("raises the last error when every model fails", async () => {
+    const model = new ChatModelWithFallbacks({
+      models: [
+        new FailingChatModel(httpError(429, "Rate limit exceeded")),
+        new FailingChatModel(httpError(503, "Service unavailable")),
+      ],
+      modelNames: ["openai/gpt-4o", "anthropic/claude-3-5-haiku-latest"],
+    });
+    await expect(model.invoke("Hi")).rejects.toThrow("Service unavailable");
+  });
+});
+
+describe("isFallbackError", () => {
+  it("recognizes rate limits, overload and provider errors", () => {
+    expect(isFallbackError(httpError(429, "Too many requests"))).toBe(true);
+    expect(isFallbackError(httpError(529, "Overloaded"))).toBe(true);
+    expect(isFallbackError(new Error("fetch failed"))).toBe(true);
+    expect(isFallbackError(httpError(401, "Invalid API key"))).toBe(false);
+    expect(isFallbackError(new Error("Invalid input"))).toBe(false);
+  });
+});
@@ -16,6 +16,7 @@ import { LangGraphLogoSVG } from "../icons/langgraph";
 import { TooltipIconButton } from "./tooltip-icon-button";
 import {
   ArrowDown,
+  Brain,
   LoaderCircle,
   PanelRightOpen,
   PanelRightClose,
@@ -24,6 +25,7 @@ import {
 import { useQueryState, parseAsBoolean } from "nuqs";
 import { StickToBottom, useStickToBottomContext } from "use-stick-to-bottom";
 import ThreadHistory from "./history";
+import MemoryManager, { DEFAULT_USER_ID } from "./memories";
 import { toast } from "sonner";
 import { useMediaQuery } from "@/hooks/useMediaQuery";
 import { Label } from "../ui/label";
@@ -74,6 +76,25 @@ function ScrollToBottom(props: { className?: string }) {
   );
 }
 
+// Scrolls to the message in the `messageId` query param once it has loaded,
+// e.g. the message a memory was learned from.
+function ScrollToMessage() {
+  const { stopScroll } = useStickToBottomContext();
+  const { messages } = useStreamContext();
+  const [messageId, setMessageId] = useQueryState("messageId");
+
+  useEffect(() => {
+    if (!messageId) return;
+    const element = document.getElementById(`message-${messageId}`);
+    if (!element) return;
+    stopScroll();
+    element.scrollIntoView({ block: "center" });
+    setMessageId(null);
+  }, [messageId, messages, stopScroll, setMessageId]);
+
+  return null;
+}
+
 function OpenGitHubRepo() {
   return (
     <TooltipProvider>
@@ -105,6 +126,13 @@ export function Thread() {
     "hideToolCalls",
     parseAsBoolean.withDefault(false),
   );
+  const [memoriesOpen, setMemoriesOpen] = useQueryState(
+    "memoriesOpen",
+    parseAsBoolean.withDefault(false),
+  );
+  const [userId] = useQueryState("userId", {
+    defaultValue: DEFAULT_USER_ID,
+  });
   const [input, setInput] = useState("");
   const [firstTokenReceived, setFirstTokenReceived] = useState(false);
   const isLargeScreen = useMediaQuery("(min-width: 1024px)");
@@ -173,6 +201,7 @@ export function Thread() {
       { messages: [...toolMessages, newHumanMessage] },
       {
         streamMode: ["values"],
+        config: { configurable: { userId } },
         optimisticValues: (prev) => ({
           ...prev,
           messages: [
@@ -196,6 +225,7 @@ export function Thread() {
     stream.submit(undefined, {
       checkpoint: parentCheckpoint,
       streamMode: ["values"],
+      config: { configurable: { userId } },
     });
   };
 
@@ -235,10 +265,8 @@ export function Thread() {
         layout={isLargeScreen}
         animate={{
           marginLeft: chatHistoryOpen ? (isLargeScreen ? 300 : 0) : 0,
-          width: chatHistoryOpen
-            ? isLargeScreen
-              ? "calc(100% - 300px)"
-              : "100%"
+          width: isLargeScreen
+            ? `calc(100% - ${(chatHistoryOpen ? 300 : 0) + (memoriesOpen ? 360 : 0)}px)`
             : "100%",
         }}
         transition={
@@ -264,7 +292,16 @@ export function Thread() {
                 </Button>
               )}
             </div>
-            <div className="absolute top-2 right-4 flex items-center">
+            <div className="absolute top-2 right-4 flex items-center gap-4">
+              <TooltipIconButton
+                size="lg"
+                className="p-4"
+                tooltip="Memories"
+                variant="ghost"
+                onClick={() => setMemoriesOpen((p) => !p)}
+              >
+                <Brain className="size-5" />
+              </TooltipIconButton>
               <OpenGitHubRepo />
             </div>
           </div>
@@ -310,6 +347,15 @@ export function Thread() {
               <div className="flex items-center">
                 <OpenGitHubRepo />
               </div>
+              <TooltipIconButton
+                size="lg"
+                className="p-4"
+                tooltip="Memories"
+                variant="ghost"
+                onClick={() => setMemoriesOpen((p) => !p)}
+              >
+                <Brain className="size-5" />
+              </TooltipIconButton>
               <TooltipIconButton
                 size="lg"
                 className="p-4"
@@ -366,6 +412,7 @@ export function Thread() {
                 {isLoading && !firstTokenReceived && (
                   <AssistantMessageLoading />
                 )}
+                <ScrollToMessage />
               </>
             }
             footer={
@@ -444,6 +491,7 @@ export function Thread() {
           />
         </StickToBottom>
       </motion.div>
+      <MemoryManager />
     </div>
   );
 }
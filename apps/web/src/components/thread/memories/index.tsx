@@ -0,0 +1,499 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { getApiKey } from "@/lib/api-key";
+import { useMediaQuery } from "@/hooks/useMediaQuery";
+import { createClient } from "@/providers/client";
+import { Item } from "@langchain/langgraph-sdk";
+import { format } from "date-fns";
+import { Pencil, RefreshCw, Search, Trash2, X } from "lucide-react";
+import { parseAsBoolean, useQueryState } from "nuqs";
+import { FormEvent, useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+
+// The user the memory-agent falls back to when none is configured.
+export const DEFAULT_USER_ID = "default";
+
+// Fields the memory-agent stores next to a memory's data.
+const METADATA_FIELDS = [
+  "created_at",
+  "updated_at",
+  "last_recalled_at",
+  "expires_at",
+  "sources",
+];
+
+type MemorySource = {
+  thread_id: string;
+  run_id?: string;
+  message_ids: string[];
+};
+
+function getMemoryData(value: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([key]) => !METADATA_FIELDS.includes(key)),
+  );
+}
+
+function formatDate(value: string | undefined): string | undefined {
+  return value ? format(new Date(value), "MMM d, yyyy") : undefined;
+}
+
+function formatField(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    return Object.entries(value)
+      .map(([key, v]) => `${key}: ${formatField(v)}`)
+      .join("\n");
+  }
+  return JSON.stringify(value);
+}
+
+// How many memories are read from the store at a time.
+const PAGE_SIZE = 100;
+
+function useMemories(userId: string) {
+  const [apiUrl] = useQueryState("apiUrl");
+  const [memories, setMemories] = useState<Item[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  // The search being paged through, and how many items it has returned.
+  const page = useRef<{ query?: string; offset: number }>({ offset: 0 });
+
+  const getClient = useCallback(() => {
+    if (!apiUrl) throw new Error("No LangGraph API URL set");
+    return createClient(apiUrl, getApiKey() ?? undefined);
+  }, [apiUrl]);
+
+  const fetchPage = useCallback(
+    async (query: string | undefined, offset: number) => {
+      const { items } = await getClient().store.searchItems(
+        ["memories", userId],
+        { query, limit: PAGE_SIZE, offset },
+      );
+      page.current = { query, offset: offset + items.length };
+      setHasMore(items.length === PAGE_SIZE);
+      // The store matches namespace prefixes as strings, so the memories of
+      // users whose id starts with this one are returned too.
+      return items.filter((item) => item.namespace[1] === userId);
+    },
+    [getClient, userId],
+  );
+
+  const search = useCallback(
+    async (query?: string) => {
+      if (!apiUrl) return;
+      setLoading(true);
+      try {
+        setMemories(await fetchPage(query || undefined, 0));
+      } catch (e) {
+        console.error(e);
+        toast.error("Failed to load memories", { richColors: true });
+      } finally {
+        setLoading(false);
+      }
+    },
+    [apiUrl, fetchPage],
+  );
+
+  const loadMore = useCallback(async () => {
+    setLoadingMore(true);
+    try {
+      const items = await fetchPage(page.current.query, page.current.offset);
+      setMemories((prev) => [...prev, ...items]);
+    } catch (e) {
+      console.error(e);
+      toast.error("Failed to load memories", { richColors: true });
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [fetchPage]);
+
+  const update = useCallback(
+    async (memory: Item, data: Record<string, any>) => {
+      // Keep the agent's metadata, and only embed the data fields.
+      const value = {
+        ...memory.value,
+        ...data,
+        updated_at: new Date().toISOString(),
+      };
+      await getClient().store.putItem(memory.namespace, memory.key, value, {
+        index: Object.keys(data),
+      });
+      setMemories((prev) =>
+        prev.map((m) =>
+          m.namespace.join("/") === memory.namespace.join("/") &&
+          m.key === memory.key
+            ? { ...m, value }
+            : m,
+        ),
+      );
+    },
+    [getClient],
+  );
+
+  const remove = useCallback(
+    async (memory: Item) => {
+      await getClient().store.deleteItem(memory.namespace, memory.key);
+      // Later pages move up by one.
+      page.current.offset -= 1;
+      setMemories((prev) => prev.filter((m) => m !== memory));
+    },
+    [getClient],
+  );
+
+  return {
+    memories,
+    loading,
+    loadingMore,
+    hasMore,
+    search,
+    loadMore,
+    update,
+    remove,
+  };
+}
+
+function MemoryEditor({
+  data,
+  onSave,
+  onCancel,
+}: {
+  data: Record<string, any>;
+  onSave: (data: Record<string, any>) => Promise<void>;
+  onCancel: () => void;
+}) {
+  // Strings are edited as text, anything else as JSON.
+  const [fields, setFields] = useState(() =>
+    Object.fromEntries(
+      Object.entries(data).map(([key, value]) => [
+        key,
+        typeof value === "string" ? value : JSON.stringify(value, null, 2),
+      ]),
+    ),
+  );
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    let next: Record<string, any>;
+    try {
+      next = Object.fromEntries(
+        Object.entries(fields).map(([key, text]) => [
+          key,
+          typeof data[key] === "string" ? text : JSON.parse(text),
+        ]),
+      );
+    } catch {
+      toast.error("Fields that are not text must be valid JSON", {
+        richColors: true,
+      });
+      return;
+    }
+    setSaving(true);
+    try {
+      await onSave(next);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-2">
+      {Object.entries(fields).map(([key, text]) => (
+        <label key={key} className="flex flex-col gap-1 text-xs text-gray-500">
+          {key}
+          <Textarea
+            value={text}
+            onChange={(e) =>
+              setFields((prev) => ({ ...prev, [key]: e.target.value }))
+            }
+            className="text-sm text-gray-900 min-h-10"
+          />
+        </label>
+      ))}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={saving}>
+          Save
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+function MemoryCard({
+  memory,
+  onUpdate,
+  onDelete,
+  onOpenThread,
+}: {
+  memory: Item;
+  onUpdate: (data: Record<string, any>) => Promise<void>;
+  onDelete: () => Promise<void>;
+  onOpenThread?: (source: MemorySource) => void;
+}) {
+  const [editing, setEditing] = useState(false);
+  const data = getMemoryData(memory.value);
+  const { content, context, ...rest } = data;
+  const sources: MemorySource[] = memory.value.sources ?? [];
+  const updated = formatDate(
+    memory.value.updated_at ?? String(memory.updatedAt),
+  );
+  const expires = formatDate(memory.value.expires_at);
+
+  return (
+    <div className="w-full rounded-lg border border-slate-200 p-3 flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="rounded bg-slate-100 px-1.5 py-0.5 text-xs font-medium text-slate-700">
+          {memory.namespace[2] ?? "memory"}
+        </span>
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            aria-label="Edit memory"
+            onClick={() => setEditing((e) => !e)}
+          >
+            {editing ? <X className="size-4" /> : <Pencil className="size-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            aria-label="Delete memory"
+            onClick={() => {
+              if (!window.confirm("Delete this memory?")) return;
+              onDelete().catch((e) => {
+                console.error(e);
+                toast.error("Failed to delete memory", { richColors: true });
+              });
+            }}
+          >
+            <Trash2 className="size-4" />
+          </Button>
+        </div>
+      </div>
+      {editing ? (
+        <MemoryEditor
+          data={data}
+          onCancel={() => setEditing(false)}
+          onSave={async (next) => {
+            try {
+              await onUpdate(next);
+              setEditing(false);
+            } catch (e) {
+              console.error(e);
+              toast.error("Failed to save memory", { richColors: true });
+            }
+          }}
+        />
+      ) : (
+        <>
+          {content !== undefined && (
+            <p className="text-sm text-gray-900 whitespace-pre-wrap">
+              {formatField(content)}
+            </p>
+          )}
+          {context !== undefined && (
+            <p className="text-xs text-gray-500 whitespace-pre-wrap">
+              {formatField(context)}
+            </p>
+          )}
+          {Object.entries(rest).map(([key, value]) => (
+            <div key={key} className="text-sm">
+              <span className="text-xs text-gray-500">{key}</span>
+              <p className="text-gray-900 whitespace-pre-wrap">
+                {formatField(value)}
+              </p>
+            </div>
+          ))}
+        </>
+      )}
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-400">
+        {updated && <span>Updated {updated}</span>}
+        {expires && <span>Expires {expires}</span>}
+        {sources.slice(-1).map((source) => (
+          <button
+            key={source.thread_id}
+            className="underline hover:text-gray-600 cursor-pointer"
+            onClick={() => onOpenThread?.(source)}
+          >
+            From thread
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function MemoryList({ onOpenThread }: { onOpenThread?: () => void }) {
+  const [userId, setUserId] = useQueryState("userId", {
+    defaultValue: DEFAULT_USER_ID,
+  });
+  const [, setThreadId] = useQueryState("threadId");
+  const [, setMessageId] = useQueryState("messageId");
+  const [userInput, setUserInput] = useState(userId);
+  const [query, setQuery] = useState("");
+  const {
+    memories,
+    loading,
+    loadingMore,
+    hasMore,
+    search,
+    loadMore,
+    update,
+    remove,
+  } = useMemories(userId);
+
+  // Follow the user in the URL, e.g. after going back in history.
+  useEffect(() => {
+    setUserInput(userId);
+  }, [userId]);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    search();
+  }, [search]);
+
+  return (
+    <div className="h-full flex flex-col w-full gap-3 px-4 min-h-0">
+      <label className="flex items-center gap-2 text-sm text-gray-500">
+        User
+        <Input
+          value={userInput}
+          onChange={(e) => setUserInput(e.target.value)}
+          onBlur={() => {
+            setUserId(userInput.trim() || null);
+            setUserInput(userInput.trim() || DEFAULT_USER_ID);
+          }}
+          className="h-8"
+        />
+      </label>
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          search(query);
+        }}
+      >
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search memories..."
+          className="h-8"
+        />
+        <Button
+          type="submit"
+          variant="ghost"
+          size="sm"
+          aria-label="Search memories"
+        >
+          <Search className="size-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          aria-label="Reload memories"
+          onClick={() => {
+            setQuery("");
+            search();
+          }}
+        >
+          <RefreshCw className="size-4" />
+        </Button>
+      </form>
+      <div className="flex-1 flex flex-col gap-2 pb-4 overflow-y-scroll [&::-webkit-scrollbar]:w-1.5 [&::-webkit-scrollbar-thumb]:rounded-full [&::-webkit-scrollbar-thumb]:bg-gray-300 [&::-webkit-scrollbar-track]:bg-transparent">
+        {loading ? (
+          Array.from({ length: 6 }).map((_, i) => (
+            <Skeleton key={`skeleton-${i}`} className="w-full h-20" />
+          ))
+        ) : memories.length ? (
+          memories.map((memory) => (
+            <MemoryCard
+              key={`${memory.namespace.join("/")}/${memory.key}`}
+              memory={memory}
+              onUpdate={(data) => update(memory, data)}
+              onDelete={() => remove(memory)}
+              onOpenThread={(source) => {
+                setThreadId(source.thread_id);
+                // The thread scrolls to the first message it came from.
+                setMessageId(source.message_ids[0] ?? null);
+                onOpenThread?.();
+              }}
+            />
+          ))
+        ) : (
+          <p className="text-sm text-gray-500">
+            No memories stored for this user.
+          </p>
+        )}
+        {!loading && hasMore && (
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={loadingMore}
+            onClick={loadMore}
+          >
+            Load more
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function MemoryManager() {
+  const isLargeScreen = useMediaQuery("(min-width: 1024px)");
+  const [memoriesOpen, setMemoriesOpen] = useQueryState(
+    "memoriesOpen",
+    parseAsBoolean.withDefault(false),
+  );
+
+  return (
+    <>
+      {memoriesOpen && (
+        <div className="hidden lg:flex flex-col border-l-[1px] border-slate-300 items-start justify-start gap-6 h-screen w-[360px] shrink-0 bg-white">
+          <div className="flex items-center justify-between w-full pt-1.5 px-4">
+            <h1 className="text-xl font-semibold tracking-tight">Memories</h1>
+            <Button
+              className="hover:bg-gray-100"
+              variant="ghost"
+              aria-label="Close memories"
+              onClick={() => setMemoriesOpen(false)}
+            >
+              <X className="size-5" />
+            </Button>
+          </div>
+          <MemoryList />
+        </div>
+      )}
+      <div className="lg:hidden">
+        <Sheet
+          open={!!memoriesOpen && !isLargeScreen}
+          onOpenChange={(open) => {
+            if (isLargeScreen) return;
+            setMemoriesOpen(open);
+          }}
+        >
+          <SheetContent side="right" className="lg:hidden flex">
+            <SheetHeader>
+              <SheetTitle>Memories</SheetTitle>
+            </SheetHeader>
+            <MemoryList onOpenThread={() => setMemoriesOpen(false)} />
+          </SheetContent>
+        </Sheet>
+      </div>
+    </>
+  );
+}
@@ -113,7 +113,10 @@ export function AssistantMessage({
   }
 
   return (
-    <div className="flex items-start mr-auto gap-2 group">
+    <div
+      id={message?.id ? `message-${message.id}` : undefined}
+      className="flex items-start mr-auto gap-2 group"
+    >
       {isToolResult ? (
         <ToolResult message={message} />
       ) : (
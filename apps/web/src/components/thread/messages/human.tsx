@@ -71,6 +71,7 @@ export function HumanMessage({
 
   return (
     <div
+      id={message.id ? `message-${message.id}` : undefined}
       className={cn(
         "flex items-center ml-auto gap-2 group",
         isEditing && "w-full max-w-xl",
@@ -2,6 +2,7 @@ import { AIMessage, ToolMessage } from "@langchain/langgraph-sdk";
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { ChevronDown, ChevronUp } from "lucide-react";
+import { cn } from "@/lib/utils";
 
 function isComplexValue(value: any): boolean {
   return Array.isArray(value) || (typeof value === "object" && value !== null);
@@ -93,19 +94,33 @@ export function ToolResult({ message }: { message: ToolMessage }) {
         : contentLines.slice(0, 4).join("\n") + "\n..."
       : contentStr;
 
+  const isError = message.status === "error";
+
   return (
-    <div className="border border-gray-200 rounded-lg overflow-hidden">
-      <div className="bg-gray-50 px-4 py-2 border-b border-gray-200">
+    <div
+      className={cn(
+        "border rounded-lg overflow-hidden",
+        isError ? "border-red-200" : "border-gray-200",
+      )}
+    >
+      <div
+        className={cn(
+          "px-4 py-2 border-b",
+          isError ? "bg-red-50 border-red-200" : "bg-gray-50 border-gray-200",
+        )}
+      >
         <div className="flex items-center justify-between gap-2 flex-wrap">
           {message.name ? (
             <h3 className="font-medium text-gray-900">
-              Tool Result:{" "}
+              {isError ? "Tool Failed" : "Tool Result"}:{" "}
               <code className="bg-gray-100 px-2 py-1 rounded">
                 {message.name}
               </code>
             </h3>
           ) : (
-            <h3 className="font-medium text-gray-900">Tool Result</h3>
+            <h3 className="font-medium text-gray-900">
+              {isError ? "Tool Failed" : "Tool Result"}
+            </h3>
           )}
           {message.tool_call_id && (
             <code className="ml-2 text-sm bg-gray-100 px-2 py-1 rounded">